@@ -9,7 +9,7 @@ import terser from "@rollup/plugin-terser";
 // import { dir } from "console";
 // const packageJson = require("./package.json");
 
-export default {
+const library = {
   input: "src/index.ts",
   output: [
     // {
@@ -35,3 +35,27 @@ export default {
   ],
   external: ["react", "react-dom"], // Exclude peer dependencies
 };
+
+// Type generator cli, run with npx xams-codegen
+const codegen = {
+  input: "src/codegen/cli.ts",
+  output: {
+    file: "./dist/cli/codegen.js",
+    format: "esm",
+    banner: "#!/usr/bin/env node",
+  },
+  plugins: [
+    resolve(),
+    commonjs(),
+    typescript({
+      tsconfig: "./tsconfig.json",
+      declaration: false,
+      declarationDir: undefined,
+      emitDeclarationOnly: false,
+      sourceMap: false,
+    }),
+  ],
+  external: ["fs", "path"],
+};
+
+export default [library, codegen];
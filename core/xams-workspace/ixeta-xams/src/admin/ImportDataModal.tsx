@@ -1,7 +1,9 @@
 import { API_DATA_FILE } from "../apiurls";
 import useAuthRequest from "../hooks/useAuthRequest";
-import { Button, FileInput, Loader, Modal } from "@mantine/core";
-import React, { useEffect } from "react";
+import { Button, FileInput, Modal } from "@mantine/core";
+import React, { useEffect, useRef } from "react";
+import { RequestProgress } from "../api/XamsClient";
+import TransferProgress from "../components/TransferProgress";
 
 interface ImportDataModalProps {
   opened: boolean;
@@ -12,10 +14,14 @@ const ImportDataModal = (props: ImportDataModalProps) => {
   const authRequest = useAuthRequest();
   const [currentFile, setCurrentFile] = React.useState<File | null>(null);
   const [isLoading, setIsLoading] = React.useState<boolean>(false);
+  const [progress, setProgress] = React.useState<RequestProgress>();
+  const abortController = useRef<AbortController>();
 
   const onUpload = async () => {
     if (currentFile === null) return;
     setIsLoading(true);
+    setProgress(undefined);
+    abortController.current = new AbortController();
     const formData = new FormData();
     formData.append("file", currentFile);
     formData.append("name", "ADMIN_ImportData");
@@ -23,10 +29,20 @@ const ImportDataModal = (props: ImportDataModalProps) => {
       url: API_DATA_FILE,
       method: "POST",
       body: formData,
+      signal: abortController.current.signal,
+      onUploadProgress: setProgress,
     });
+    if (resp.aborted === true) {
+      setIsLoading(false);
+      return;
+    }
     props.close();
   };
 
+  const onCancel = () => {
+    abortController.current?.abort();
+  };
+
   useEffect(() => {
     if (props.opened === true) {
       setIsLoading(false);
@@ -53,8 +69,12 @@ const ImportDataModal = (props: ImportDataModalProps) => {
       centered
     >
       {isLoading === true && (
-        <div className="absolute w-full h-full  flex justify-center items-center overflow-hidden z-30">
-          <Loader />
+        <div className="absolute w-full h-full flex justify-center items-center overflow-hidden z-30 p-4">
+          <TransferProgress
+            label={progress?.percent === 100 ? "Processing..." : "Uploading..."}
+            progress={progress}
+            onCancel={onCancel}
+          />
         </div>
       )}
       <div className={`p-4 ${isLoading ? `invisible` : ``}`}>
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef, useState } from "react";
 import { useFormBuilderType } from "../hooks/useFormBuilder";
 import useAuthRequest from "../hooks/useAuthRequest";
+import useEntityChanges from "../hooks/useEntityChanges";
 import { Button } from "@mantine/core";
 
 interface JobFormProps {
@@ -25,49 +26,60 @@ const JobForm = (props: JobFormProps) => {
     setIsLoading(false);
   };
 
-  useEffect(() => {
-    const refresh = async () => {
-      if (dataRef.current == null) {
-        return;
-      }
-      if (isRefreshing) {
-        return;
-      }
-      setIsRefreshing(true);
-      try {
-        const resp = await authRequest.read<any>({
-          tableName: props.formBuilder.tableName,
-          id: props.formBuilder.snapshot?.JobId,
-          fields: ["*"],
-        });
-        if (resp != null && resp.data.results.length > 0) {
-          const job = resp.data.results[0];
-          if (job.Status != "Running") {
-            setIsLoading(false);
-          } else {
-            setIsLoading(true);
-          }
-
-          // If the status has changed, reload the history table
-          props.formBuilder.dispatch({
-            type: "SET_FIELD_VALUE",
-            payload: { field: "Status", value: job.Status },
-          });
-          props.formBuilder.dispatch({
-            type: "SET_FIELD_VALUE",
-            payload: { field: "LastExecution", value: job.LastExecution },
-          });
+  const refresh = async () => {
+    if (dataRef.current == null) {
+      return;
+    }
+    if (isRefreshing) {
+      return;
+    }
+    setIsRefreshing(true);
+    try {
+      const resp = await authRequest.read<any>({
+        tableName: props.formBuilder.tableName,
+        id: props.formBuilder.snapshot?.JobId,
+        fields: ["*"],
+      });
+      if (resp != null && resp.data.results.length > 0) {
+        const job = resp.data.results[0];
+        if (job.Status != "Running") {
+          setIsLoading(false);
+        } else {
+          setIsLoading(true);
         }
-      } catch (e) {
-        console.error(e);
-      } finally {
-        setIsRefreshing(false);
+
+        // If the status has changed, reload the history table
+        props.formBuilder.dispatch({
+          type: "SET_FIELD_VALUE",
+          payload: { field: "Status", value: job.Status },
+        });
+        props.formBuilder.dispatch({
+          type: "SET_FIELD_VALUE",
+          payload: { field: "LastExecution", value: job.LastExecution },
+        });
       }
-    };
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const isLive = useEntityChanges(
+    props.formBuilder.tableName,
+    refresh,
+    props.formBuilder.snapshot?.JobId
+  );
+
+  // Poll for the status if live changes aren't enabled
+  useEffect(() => {
+    if (isLive) {
+      return;
+    }
     const interval = setInterval(refresh, 2500);
 
     return () => clearInterval(interval);
-  }, []);
+  }, [isLive]);
 
   useEffect(() => {
     if (
@@ -59,31 +59,36 @@ const RolePermissions = (props: RolePermissionsProps) => {
     }
 
     const permissionsQuery = new Query(["*"])
-      .top(999999)
       .from("Permission")
       .orderBy("Name", "asc")
       .distinct()
       .toReadRequest();
-    const permissionsResp = await authRequest.read<Permission>(
-      permissionsQuery
-    );
 
     const query = new Query(["*"])
-      .top(999999)
       .from("RolePermission")
       .where("RoleId", "==", props.roleId)
       .distinct()
       .toReadRequest();
-    const rolePermissionsResp = await authRequest.read<RolePermission>(query);
-    if (!rolePermissionsResp.succeeded) {
+
+    let allPermissions: Permission[];
+    let rolePermissions: RolePermission[];
+    try {
+      allPermissions = await authRequest
+        .readAll<Permission>(permissionsQuery)
+        .toArray();
+      rolePermissions = await authRequest
+        .readAll<RolePermission>(query, { keyset: true })
+        .toArray();
+    } catch (error) {
+      console.error(error);
       return;
     }
     setState((prev) => {
       return {
         ...prev,
         tables: tablesResp.data as TablesResponse[],
-        allPermissions: permissionsResp.data.results,
-        rolePermissions: rolePermissionsResp.data.results,
+        allPermissions: allPermissions,
+        rolePermissions: rolePermissions,
         isLoaded: true,
       };
     });
@@ -1,7 +1,15 @@
+export interface ApiFieldError {
+  field: string; // Field name, ie: "Name" or "RoleId"
+  message: string;
+}
+
 export interface ApiResponse<T> {
   succeeded: boolean;
   data: T;
   friendlyMessage: string;
   logMessage: string;
+  fieldErrors?: ApiFieldError[]; // Validation errors tied to a specific field
   response: Response | undefined;
+  aborted?: boolean; // The request was cancelled through its AbortSignal
+  queued?: boolean; // The mutation was queued to be sent when back online
 }
@@ -0,0 +1,151 @@
+export type ChangeOperation = "CREATE" | "UPDATE" | "DELETE";
+
+// A record created, updated or deleted on the server
+export interface EntityChange {
+  tableName: string;
+  id: string;
+  operation: ChangeOperation;
+}
+
+export type ChangeListener = (change: EntityChange) => void;
+
+export interface ChangeStreamOptions {
+  onChange: ChangeListener;
+  onOpen?: () => void;
+  signal?: AbortSignal;
+}
+
+export interface ChangeFeedOptions {
+  reconnectDelayMs?: number; // Doubled after each failed attempt, defaults to 1000
+  maxReconnectDelayMs?: number; // Defaults to 30000
+}
+
+// One connection shared by every subscriber, opened by the first and closed after the last unsubscribes
+export interface ChangeFeed {
+  // Listens to every record of the table, or only the record with the id
+  subscribe: (
+    tableName: string,
+    listener: ChangeListener,
+    id?: string
+  ) => () => void;
+}
+
+// Opens the change stream, resolves when the server closes it
+export type ChangeStreamConnect = (
+  options: ChangeStreamOptions
+) => Promise<void>;
+
+interface Subscription {
+  tableName: string;
+  id?: string;
+  listener: ChangeListener;
+}
+
+// Calls onData with the data of each server-sent event until the stream ends
+export const readEventStream = async (
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void
+) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let data: string[] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r\n|\r|\n/);
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      // A blank line ends the event, lines starting with : are comments
+      if (line === "") {
+        if (data.length > 0) {
+          onData(data.join("\n"));
+        }
+        data = [];
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).replace(/^ /, ""));
+      }
+    }
+  }
+};
+
+const isSameId = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export const createChangeFeed = (
+  connect: ChangeStreamConnect,
+  options?: ChangeFeedOptions
+): ChangeFeed => {
+  const baseDelayMs = options?.reconnectDelayMs ?? 1000;
+  const maxDelayMs = options?.maxReconnectDelayMs ?? 30000;
+  const subscriptions = new Set<Subscription>();
+  let controller: AbortController | undefined;
+
+  const dispatch = (change: EntityChange) => {
+    for (const subscription of Array.from(subscriptions)) {
+      if (
+        subscription.tableName.toLowerCase() ===
+          change.tableName.toLowerCase() &&
+        (subscription.id == null || isSameId(subscription.id, change.id))
+      ) {
+        try {
+          subscription.listener(change);
+        } catch (error) {
+          console.error(error);
+        }
+      }
+    }
+  };
+
+  // Reconnects with backoff until every subscriber is gone
+  const run = async (signal: AbortSignal) => {
+    let attempt = 0;
+    while (!signal.aborted) {
+      try {
+        await connect({
+          onChange: dispatch,
+          onOpen: () => {
+            attempt = 0;
+          },
+          signal: signal,
+        });
+      } catch (error) {
+        if (signal.aborted) {
+          return;
+        }
+        console.error(error);
+      }
+      const delayMs = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+      attempt++;
+      await new Promise<void>((resolve) => {
+        const timeout = setTimeout(done, delayMs);
+        function done() {
+          clearTimeout(timeout);
+          signal.removeEventListener("abort", done);
+          resolve();
+        }
+        signal.addEventListener("abort", done);
+      });
+    }
+  };
+
+  return {
+    subscribe: (tableName: string, listener: ChangeListener, id?: string) => {
+      const subscription: Subscription = { tableName, id, listener };
+      subscriptions.add(subscription);
+      if (controller === undefined) {
+        controller = new AbortController();
+        run(controller.signal);
+      }
+      return () => {
+        subscriptions.delete(subscription);
+        if (subscriptions.size === 0 && controller !== undefined) {
+          controller.abort();
+          controller = undefined;
+        }
+      };
+    },
+  };
+};
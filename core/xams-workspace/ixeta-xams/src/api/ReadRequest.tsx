@@ -8,25 +8,59 @@ export interface ReadRequest {
   filters?: ReadFilter[];
   joins?: ReadJoin[];
   except?: ReadExcept[];
+  whereIn?: ReadWhereIn[];
   distinct?: boolean;
   denormalize?: boolean;
+  aggregates?: ReadAggregate[];
+  groupBy?: string[];
+  having?: ReadFilter[]; // Filters on the group by fields and aggregate aliases
+  countOnly?: boolean; // Only return totalResults, without any records
   parameters?: any;
 }
 
+export type AggregateFunction = "count" | "sum" | "avg" | "min" | "max";
+
+export interface ReadAggregate {
+  function: AggregateFunction;
+  field?: string; // count counts the records if the field isn't set
+  alias: string; // The name of the value in the results, letters and numbers only
+}
+
 export interface ReadJoin {
+  type?: "inner" | "left";
   fields: string[];
   alias?: string;
   fromTable: string;
   fromField: string;
   toTable: string;
   toField: string;
-  filters?: ReadFilter[];
+  filters?: ReadFilter[]; // On the fields of the joined table, applied before it's joined
 }
 
+export type ReadFilterOperator =
+  | "=="
+  | "!="
+  | ">"
+  | "<"
+  | ">="
+  | "<="
+  | "Contains"
+  | "In"
+  | "NotIn"
+  | "Between"
+  | "StartsWith"
+  | "EndsWith"
+  | "IsNull"
+  | "IsNotNull"
+  | "EqualsIgnoreCase";
+
 export interface ReadFilter {
   field?: string;
   value?: string | null;
-  operator?: string;
+  values?: string[] | null; // In and NotIn take a list, Between takes the start and end
+  operator?: ReadFilterOperator;
+  logicalOperator?: string; // AND or OR, set on a group of filters instead of field
+  filters?: ReadFilter[];
 }
 
 export interface ReadExcept {
@@ -34,6 +68,12 @@ export interface ReadExcept {
   query: ReadRequest;
 }
 
+// Only reads records where fromField is in the one field selected by the query
+export interface ReadWhereIn {
+  fromField: string; // The field in the current table, or alias.field of a join
+  query: ReadRequest;
+}
+
 export interface ReadOrderBy {
   field: string;
   order?: string;
@@ -0,0 +1,169 @@
+import { ApiResponse } from "./ApiResponse";
+import { ReadRequest } from "./ReadRequest";
+import { ReadResponse } from "./ReadResponse";
+import { API_DATA_PERMISSIONS, API_DATA_READ } from "../apiurls";
+import type { RequestHandler, RequestParams } from "./XamsClient";
+
+export interface BulkReadRequest {
+  reads?: ReadRequest[];
+  permissions?: { method: string; parameters?: any }[];
+}
+
+// Each read and permission check has its own result, in the order they were requested
+export interface BulkReadResponse {
+  reads: Omit<ApiResponse<ReadResponse<any>>, "response">[];
+  permissions: Omit<ApiResponse<string[]>, "response">[];
+}
+
+export interface BatchOptions {
+  maxSize?: number; // Requests per round trip, defaults to 50
+}
+
+interface BatchEntry {
+  params: RequestParams;
+  send: RequestHandler; // Sends the request on its own
+  sendBatch: (
+    request: BulkReadRequest
+  ) => Promise<ApiResponse<BulkReadResponse>>;
+  onError?: (message: string) => void;
+}
+
+// Queues the request to be sent with the others made in the same tick
+export type RequestBatcher = (entry: BatchEntry) => Promise<ApiResponse<any>>;
+
+const BATCH_URLS = [API_DATA_READ, API_DATA_PERMISSIONS];
+
+// Only plain reads and permission checks can be sent in a bulk read
+export const isBatchable = (params: RequestParams) =>
+  BATCH_URLS.includes(params.url) &&
+  params.method === "POST" &&
+  params.body != null &&
+  !(params.body instanceof FormData) &&
+  params.searchParams === undefined &&
+  params.headers === undefined &&
+  params.fileName === undefined &&
+  params.onUploadProgress === undefined &&
+  params.onDownloadProgress === undefined;
+
+const failedResponse = (): ApiResponse<any> => ({
+  succeeded: false,
+  data: undefined,
+  friendlyMessage: "",
+  logMessage: "",
+  response: undefined,
+});
+
+export const createRequestBatcher = (
+  options?: BatchOptions
+): RequestBatcher => {
+  const maxSize = options?.maxSize ?? 50;
+  let queue: (BatchEntry & {
+    resolve: (resp: ApiResponse<any>) => void;
+  })[] = [];
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  // Set once the server responds that it doesn't have the bulk read endpoint
+  let isSupported = true;
+
+  // Sends each request on its own, a request that throws resolves with a failed response
+  const sendEach = (entries: typeof queue) => {
+    for (const entry of entries) {
+      Promise.resolve()
+        .then(() => entry.send(entry.params))
+        .then(entry.resolve)
+        .catch((error) => {
+          console.error(error);
+          entry.resolve(failedResponse());
+        });
+    }
+  };
+
+  const flush = async () => {
+    clearTimeout(timeout);
+    timeout = undefined;
+    const entries = queue;
+    queue = [];
+    if (entries.length === 0) {
+      return;
+    }
+    if (entries.length === 1 || !isSupported) {
+      sendEach(entries);
+      return;
+    }
+
+    const reads = entries.filter((e) => e.params.url === API_DATA_READ);
+    const permissions = entries.filter(
+      (e) => e.params.url === API_DATA_PERMISSIONS
+    );
+    let resp: ApiResponse<BulkReadResponse>;
+    try {
+      resp = await entries[0].sendBatch({
+        reads: reads.map((e) => e.params.body),
+        permissions: permissions.map((e) => e.params.body),
+      });
+    } catch (error) {
+      console.error(error);
+      resp = failedResponse();
+    }
+
+    if (!resp.succeeded) {
+      // Older servers, send each request on its own from now on
+      if (resp.response?.status === 404 || resp.response?.status === 405) {
+        isSupported = false;
+        sendEach(entries);
+        return;
+      }
+      // Report the failure once rather than for every request in the batch
+      const shown = entries.find((e) => e.params.hideFailureMessage !== true);
+      if (
+        shown !== undefined &&
+        resp.aborted !== true &&
+        resp.response?.status !== 401 &&
+        resp.friendlyMessage !== ""
+      ) {
+        shown.onError?.(shown.params.failureMessage ?? resp.friendlyMessage);
+      }
+      for (const entry of entries) {
+        entry.resolve(resp);
+      }
+      return;
+    }
+
+    const settle = (
+      entry: (typeof entries)[number],
+      result: Omit<ApiResponse<any>, "response"> | undefined
+    ) => {
+      const entryResp: ApiResponse<any> = {
+        ...(result ?? {
+          succeeded: false,
+          data: undefined,
+          friendlyMessage: "Missing response from bulk read.",
+          logMessage: "Missing response from bulk read.",
+        }),
+        response: resp.response,
+      };
+      if (!entryResp.succeeded) {
+        if (entry.params.hideFailureMessage !== true) {
+          entry.onError?.(
+            entry.params.failureMessage ?? entryResp.friendlyMessage
+          );
+        }
+        console.error(entryResp.logMessage);
+      }
+      entry.resolve(entryResp);
+    };
+    reads.forEach((entry, i) => settle(entry, resp.data.reads?.[i]));
+    permissions.forEach((entry, i) =>
+      settle(entry, resp.data.permissions?.[i])
+    );
+  };
+
+  return (entry: BatchEntry) =>
+    new Promise<ApiResponse<any>>((resolve) => {
+      queue.push({ ...entry, resolve });
+      if (queue.length >= maxSize) {
+        flush();
+      } else if (timeout === undefined) {
+        timeout = setTimeout(flush, 0);
+      }
+    });
+};
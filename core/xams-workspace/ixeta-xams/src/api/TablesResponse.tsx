@@ -1,5 +1,8 @@
+import { MetadataResponse } from "./MetadataResponse";
+
 export interface TablesResponse {
   tableName: string;
   displayName: string;
   tag: string;
+  metadata?: MetadataResponse; // Only set if the tables were requested with includeMetadata
 }
@@ -0,0 +1,1200 @@
+import { ApiResponse } from "./ApiResponse";
+import {
+  API_DATA_ACTION,
+  API_DATA_CREATE,
+  API_DATA_DELETE,
+  API_DATA_FILE,
+  API_DATA_METADATA,
+  API_DATA_READ,
+  API_DATA_UPDATE,
+  API_DATA_PERMISSIONS,
+  API_DATA_UPSERT,
+  API_DATA_BULK,
+  API_DATA_BULK_READ,
+  API_DATA_CHANGES,
+} from "../apiurls";
+import { ReadRequest } from "./ReadRequest";
+import { MetadataResponse } from "./MetadataResponse";
+import { ReadResponse } from "./ReadResponse";
+import { TablesResponse } from "./TablesResponse";
+import { Request } from "./Request";
+import { ActionRequest } from "./ActionRequest";
+import { BulkRequest } from "./BulkRequest";
+import { StoreApi } from "zustand";
+import { QueryCacheState } from "../stores/useQueryCacheStore";
+import { OfflineState } from "../stores/useOfflineStore";
+import { v4 as uuidv4 } from "uuid";
+import type {
+  PrimaryKeys,
+  Transaction,
+  TransactionResult,
+} from "../utils/Transaction";
+import { ReadAllOptions, readAll } from "./readAll";
+import {
+  BulkReadRequest,
+  BulkReadResponse,
+  RequestBatcher,
+  isBatchable,
+} from "./RequestBatcher";
+import { ChangeStreamOptions, readEventStream } from "./ChangeFeed";
+
+export interface RequestParams {
+  method: string;
+  url: string;
+  searchParams?: URLSearchParams;
+  body?: ReadRequest | Request | ActionRequest | FormData | any;
+  failureMessage?: string;
+  hideFailureMessage?: boolean;
+  fileName?: string;
+  headers?: { [key: string]: string };
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retry?: RetryOptions | false; // Only applied to idempotent requests
+  idempotent?: boolean; // Defaults to true for reads, metadata and permission checks
+  queueOffline?: boolean; // Set to false to fail instead of queueing the mutation while offline
+  snapshot?: any; // The record before it was edited, used to detect conflicts when replaying offline mutations
+  onUploadProgress?: (progress: RequestProgress) => void;
+  onDownloadProgress?: (progress: RequestProgress) => void;
+}
+
+export interface RequestProgress {
+  loaded: number; // Bytes
+  total?: number; // Bytes, undefined if the size isn't known
+  percent?: number; // 0 - 100, undefined if the size isn't known
+}
+
+// Per request options accepted by the XamsClient methods
+export type RequestOptions = Pick<
+  RequestParams,
+  | "signal"
+  | "timeoutMs"
+  | "retry"
+  | "hideFailureMessage"
+  | "onUploadProgress"
+  | "onDownloadProgress"
+> & {
+  cache?: boolean | "reload"; // Use the query cache, "reload" skips the cached response
+};
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs?: number; // Doubled on each attempt, defaults to 500
+  maxDelayMs?: number; // Defaults to 10000
+}
+
+export type RequestHandler = (
+  params: RequestParams
+) => Promise<ApiResponse<any>>;
+
+// Middleware runs in order, the first one wraps the rest of the chain
+export interface XamsMiddleware {
+  // Rewrite the params before calling next, inspect or transform the response it returns,
+  // or return a response without calling next to short-circuit the request
+  handle?: (
+    params: RequestParams,
+    next: RequestHandler
+  ) => Promise<ApiResponse<any>>;
+  // Inspect or replace the raw fetch response before it's parsed
+  onFetchResponse?: (
+    response: Response,
+    params: RequestParams
+  ) => Response | void | Promise<Response | void>;
+}
+
+export interface XamsClientOptions {
+  apiUrl?: string;
+  getAccessToken?: () =>
+    | string
+    | undefined
+    | null
+    | Promise<string | undefined | null>;
+  getUserId?: () => string | undefined | null;
+  headers?: { [key: string]: string };
+  onUnauthorized?: () => void;
+  refreshToken?: TokenRefresher; // Called on a 401, the request is replayed with the returned token
+  onError?: (message: string) => void; // Called with the friendly message of failed requests
+  onFile?: (blob: Blob, fileName: string) => void; // Defaults to a browser download
+  timeoutMs?: number;
+  retry?: RetryOptions;
+  queryCache?: StoreApi<QueryCacheState>; // Caches reads and metadata, invalidated by mutations
+  middleware?: XamsMiddleware[]; // Every request is run through the middleware
+  offlineQueue?: StoreApi<OfflineState>; // Queues creates, updates, upserts and deletes made while offline
+  batcher?: RequestBatcher; // Sends reads and permission checks made in the same tick as one bulk read
+}
+
+const IDEMPOTENT_URLS = [
+  API_DATA_READ,
+  API_DATA_METADATA,
+  API_DATA_PERMISSIONS,
+  API_DATA_BULK_READ,
+];
+const RETRY_STATUS_CODES = [429, 502, 503, 504];
+const MUTATION_URLS = [
+  API_DATA_CREATE,
+  API_DATA_UPDATE,
+  API_DATA_DELETE,
+  API_DATA_UPSERT,
+  API_DATA_BULK,
+];
+
+const OFFLINE_URLS = [
+  API_DATA_CREATE,
+  API_DATA_UPDATE,
+  API_DATA_DELETE,
+  API_DATA_UPSERT,
+];
+
+const abortedResponse = <T>() =>
+  ({
+    succeeded: false,
+    data: undefined,
+    friendlyMessage: "",
+    logMessage: "",
+    response: undefined,
+    aborted: true,
+  } as ApiResponse<T>);
+
+// Resolves with an aborted response if the signal aborts before the promise settles
+const abortable = <T>(
+  promise: Promise<ApiResponse<T>>,
+  signal?: AbortSignal
+): Promise<ApiResponse<T>> => {
+  if (signal === undefined) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => resolve(abortedResponse<T>());
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort);
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+};
+
+// Every table a read depends on, including joins and excepts
+const getReadRequestTables = (request: ReadRequest): string[] => {
+  const tables = [request.tableName];
+  for (const join of request.joins ?? []) {
+    tables.push(join.fromTable, join.toTable);
+  }
+  for (const except of request.except ?? []) {
+    tables.push(...getReadRequestTables(except.query));
+  }
+  return Array.from(new Set(tables.filter((t) => t != null && t !== "")));
+};
+
+// Every table changed by a create, update, delete, upsert or bulk request
+const getMutationTables = (body: any): string[] => {
+  const requests: Request[] = [
+    body,
+    ...(body?.entities ?? []),
+    ...(body?.creates ?? []),
+    ...(body?.updates ?? []),
+    ...(body?.deletes ?? []),
+    ...(body?.upserts ?? []),
+  ];
+  return Array.from(
+    new Set(
+      requests
+        .map((r) => r?.tableName)
+        .filter((t): t is string => t != null && t !== "")
+    )
+  );
+};
+
+const isIdempotent = (params: RequestParams) => {
+  if (params.idempotent != null) {
+    return params.idempotent;
+  }
+  return params.method === "GET" || IDEMPOTENT_URLS.includes(params.url);
+};
+
+const shouldRetry = (resp: ApiResponse<any>) => {
+  if (resp.succeeded || resp.aborted === true) {
+    return false;
+  }
+  // No response means a network error or timeout
+  return (
+    resp.response === undefined ||
+    RETRY_STATUS_CODES.includes(resp.response.status)
+  );
+};
+
+const getRetryDelay = (
+  resp: ApiResponse<any>,
+  retry: RetryOptions,
+  attempt: number
+) => {
+  // Honour the server's Retry-After header, either in seconds or an http date
+  const status = resp.response?.status;
+  const retryAfter = resp.response?.headers.get("Retry-After");
+  if ((status === 429 || status === 503) && retryAfter != null) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(date - Date.now(), 0);
+    }
+  }
+  return Math.min(
+    (retry.baseDelayMs ?? 500) * Math.pow(2, attempt),
+    retry.maxDelayMs ?? 10000
+  );
+};
+
+// Responses with these statuses can't have a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+const getProgress = (loaded: number, total?: number): RequestProgress => ({
+  loaded,
+  total,
+  percent:
+    total !== undefined && total > 0
+      ? Math.min((loaded / total) * 100, 100)
+      : undefined,
+});
+
+// Fetch can't report upload progress, so send the request with XMLHttpRequest and return a standard Response
+const xhrFetch = (
+  url: string,
+  init: RequestInit,
+  onUploadProgress: (progress: RequestProgress) => void,
+  onDownloadProgress?: (progress: RequestProgress) => void
+) =>
+  new Promise<Response>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method ?? "GET", url);
+    xhr.responseType = "blob";
+    for (const [key, value] of Object.entries(
+      (init.headers ?? {}) as { [key: string]: string }
+    )) {
+      xhr.setRequestHeader(key, value);
+    }
+    xhr.upload.onprogress = (event) =>
+      onUploadProgress(
+        getProgress(
+          event.loaded,
+          event.lengthComputable ? event.total : undefined
+        )
+      );
+    if (onDownloadProgress !== undefined) {
+      xhr.onprogress = (event) =>
+        onDownloadProgress(
+          getProgress(
+            event.loaded,
+            event.lengthComputable ? event.total : undefined
+          )
+        );
+    }
+    xhr.onload = () => {
+      const headers = new Headers();
+      for (const line of xhr
+        .getAllResponseHeaders()
+        .trim()
+        .split(/[\r\n]+/)) {
+        const index = line.indexOf(":");
+        if (index > 0) {
+          headers.append(
+            line.slice(0, index).trim(),
+            line.slice(index + 1).trim()
+          );
+        }
+      }
+      resolve(
+        new Response(
+          NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.response,
+          { status: xhr.status, statusText: xhr.statusText, headers }
+        )
+      );
+    };
+    xhr.onerror = () => reject(new TypeError("Network request failed"));
+    xhr.onabort = () => reject(new DOMException("Aborted", "AbortError"));
+    init.signal?.addEventListener("abort", () => xhr.abort());
+    xhr.send(init.body as XMLHttpRequestBodyInit);
+  });
+
+// Reports progress as the response body is read
+const trackDownload = (
+  resp: Response,
+  onDownloadProgress: (progress: RequestProgress) => void
+) => {
+  if (resp.body == null || NULL_BODY_STATUSES.includes(resp.status)) {
+    return resp;
+  }
+  const total = Number(resp.headers.get("Content-Length")) || undefined;
+  const reader = resp.body.getReader();
+  let loaded = 0;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+      loaded += value.byteLength;
+      onDownloadProgress(getProgress(loaded, total));
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, {
+    status: resp.status,
+    statusText: resp.statusText,
+    headers: resp.headers,
+  });
+};
+
+// Resolves early if the signal is aborted
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+    signal?.addEventListener("abort", onAbort);
+  });
+
+// Runs the params through each middleware in order, ending with the handler
+export const runMiddleware = (
+  middleware: XamsMiddleware[],
+  params: RequestParams,
+  handler: RequestHandler
+): Promise<ApiResponse<any>> => {
+  const dispatch = (
+    index: number,
+    params: RequestParams
+  ): Promise<ApiResponse<any>> => {
+    const current = middleware[index];
+    if (current === undefined) {
+      return handler(params);
+    }
+    if (current.handle === undefined) {
+      return dispatch(index + 1, params);
+    }
+    return current.handle(params, (next) => dispatch(index + 1, next));
+  };
+  return dispatch(0, params);
+};
+
+// Returns the new access token, or null \ undefined if the refresh failed
+export type TokenRefresher = () => Promise<string | undefined | null>;
+
+// Wraps a token refresher so concurrent callers share a single refresh call
+export const createTokenRefresher = (
+  refreshToken: TokenRefresher
+): TokenRefresher => {
+  let refreshPromise: Promise<string | undefined | null> | null = null;
+  return () => {
+    if (refreshPromise == null) {
+      refreshPromise = (async () => {
+        try {
+          return await refreshToken();
+        } catch (error) {
+          console.error(error);
+          return null;
+        } finally {
+          refreshPromise = null;
+        }
+      })();
+    }
+    return refreshPromise;
+  };
+};
+
+const saveAsFile = (blob: Blob, filename: string) => {
+  // Outside of a browser there's nothing to save to
+  if (typeof document === "undefined") {
+    return;
+  }
+
+  // Create an anchor element
+  let a = document.createElement("a");
+
+  // Use the blob as the href
+  a.href = URL.createObjectURL(blob);
+
+  // Set the download attribute with a filename
+  a.download = filename;
+
+  // Append the anchor to the body (required for Firefox)
+  document.body.appendChild(a);
+
+  // Trigger a click event on the anchor
+  a.click();
+
+  // Clean up: remove the anchor from the body and revoke the blob URL
+  setTimeout(() => {
+    document.body.removeChild(a);
+    URL.revokeObjectURL(a.href);
+  }, 0);
+};
+
+// Framework agnostic client for the Xams api, usable from React, Node scripts, API routes and tests
+export class XamsClient {
+  private _options: XamsClientOptions;
+  private _refreshToken?: TokenRefresher;
+
+  constructor(options?: XamsClientOptions) {
+    this._options = options ?? {};
+    if (this._options.refreshToken !== undefined) {
+      this._refreshToken = createTokenRefresher(this._options.refreshToken);
+    }
+    // Bound so the methods can be destructured like the object useAuthRequest returned before,
+    // ie: const { read } = useAuthRequest() or onClick={client.execute}
+    for (const name of Object.getOwnPropertyNames(XamsClient.prototype)) {
+      const descriptor = Object.getOwnPropertyDescriptor(
+        XamsClient.prototype,
+        name
+      );
+      if (name !== "constructor" && typeof descriptor?.value === "function") {
+        (this as any)[name] = descriptor.value.bind(this);
+      }
+    }
+  }
+
+  get apiUrl() {
+    return this._options.apiUrl ?? "";
+  }
+
+  async execute<T>(params: RequestParams): Promise<ApiResponse<T>> {
+    if (this._canQueueOffline(params) && this._isOffline()) {
+      return this._queueOffline<T>(params);
+    }
+    const resp = (await runMiddleware(
+      this._options.middleware ?? [],
+      params,
+      (params) => this._send(params)
+    )) as ApiResponse<T>;
+    // The connection dropped while the request was in flight
+    if (
+      !resp.succeeded &&
+      resp.aborted !== true &&
+      resp.response === undefined &&
+      this._canQueueOffline(params) &&
+      this._isOffline()
+    ) {
+      return this._queueOffline<T>(params);
+    }
+    // Any cached reads of the changed tables are now stale
+    if (
+      resp.succeeded &&
+      this._options.queryCache !== undefined &&
+      MUTATION_URLS.includes(params.url)
+    ) {
+      const tables = getMutationTables(params.body);
+      this._options.queryCache
+        .getState()
+        .invalidate(tables.length > 0 ? tables : undefined);
+    }
+    return resp;
+  }
+
+  private _isOffline() {
+    return (
+      (typeof navigator !== "undefined" && navigator.onLine === false) ||
+      this._options.offlineQueue?.getState().isOnline === false
+    );
+  }
+
+  // Only single record mutations can be queued, bulk requests fail while offline
+  private _canQueueOffline(params: RequestParams) {
+    return (
+      this._options.offlineQueue !== undefined &&
+      params.queueOffline !== false &&
+      OFFLINE_URLS.includes(params.url) &&
+      params.body?.tableName != null &&
+      params.body?.fields != null
+    );
+  }
+
+  // Responds as if the mutation succeeded, creates are given a temporary id until they're replayed
+  private async _queueOffline<T>(
+    params: RequestParams
+  ): Promise<ApiResponse<T>> {
+    const primaryKey = `${params.body.tableName}Id`;
+    const id = uuidv4();
+    const recordId =
+      params.body.fields[primaryKey] ??
+      (params.url === API_DATA_CREATE ? id : undefined);
+    await this._options.offlineQueue?.getState().enqueue({
+      id: id,
+      url: params.url,
+      method: params.method,
+      tableName: params.body.tableName,
+      fields: params.body.fields,
+      parameters: params.body.parameters,
+      recordId: recordId,
+      snapshot: params.snapshot,
+    });
+    return {
+      succeeded: true,
+      data: { ...params.body.fields, [primaryKey]: recordId } as T,
+      friendlyMessage: "",
+      logMessage: "",
+      response: undefined,
+      queued: true,
+    };
+  }
+
+  private async _query<T>(
+    key: string,
+    tables: string[],
+    params: RequestParams,
+    cache: boolean | "reload"
+  ): Promise<ApiResponse<T>> {
+    const queryCache = this._options.queryCache;
+    if (queryCache === undefined || cache === false) {
+      return this.execute<T>(params);
+    }
+    // The request is shared between callers, so it can't be aborted by any one of them
+    const { signal, ...sharedParams } = params;
+    const promise = queryCache
+      .getState()
+      .query<T>(
+        `${this.apiUrl}|${key}`,
+        tables,
+        () => this.execute<T>(sharedParams),
+        { reload: cache === "reload" }
+      );
+    return abortable(promise, signal);
+  }
+
+  // Middleware sees each request, batched requests are sent as one bulk read after it
+  private _send<T>(params: RequestParams): Promise<ApiResponse<T>> {
+    const batcher = this._options.batcher;
+    if (batcher === undefined || !isBatchable(params)) {
+      return this._executeWithRetry<T>(params);
+    }
+    if (params.signal?.aborted === true) {
+      return Promise.resolve(abortedResponse<T>());
+    }
+    return abortable(
+      batcher({
+        params: params,
+        send: (params) => this._executeWithRetry(params),
+        sendBatch: (request) =>
+          this._executeWithRetry<BulkReadResponse>({
+            url: API_DATA_BULK_READ,
+            method: "POST",
+            body: request,
+            hideFailureMessage: true,
+          }),
+        onError: this._options.onError,
+      }),
+      params.signal
+    );
+  }
+
+  private async _executeWithRetry<T>(
+    params: RequestParams
+  ): Promise<ApiResponse<T>> {
+    const retry =
+      params.retry === false ? undefined : params.retry ?? this._options.retry;
+    let attempt = 0;
+    while (true) {
+      const resp = await this._execute<T>(params);
+      if (
+        retry === undefined ||
+        attempt >= retry.retries ||
+        !isIdempotent(params) ||
+        params.signal?.aborted === true ||
+        !shouldRetry(resp)
+      ) {
+        return resp;
+      }
+      await delay(getRetryDelay(resp, retry, attempt), params.signal);
+      attempt++;
+    }
+  }
+
+  private async _fetch(
+    url: string,
+    params: RequestParams,
+    init: RequestInit
+  ): Promise<Response> {
+    if (
+      params.onUploadProgress !== undefined &&
+      typeof XMLHttpRequest !== "undefined"
+    ) {
+      return xhrFetch(
+        url,
+        init,
+        params.onUploadProgress,
+        params.onDownloadProgress
+      );
+    }
+    const resp = await fetch(url, init);
+    if (params.onDownloadProgress !== undefined) {
+      return trackDownload(resp, params.onDownloadProgress);
+    }
+    return resp;
+  }
+
+  private async _execute<T>(
+    params: RequestParams,
+    refreshedToken?: string
+  ): Promise<ApiResponse<T>> {
+    // Aborts on the caller's signal or when the request times out
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    if (params.signal?.aborted === true) {
+      controller.abort();
+    }
+    params.signal?.addEventListener("abort", onAbort);
+    const timeoutMs = params.timeoutMs ?? this._options.timeoutMs;
+    const timeout =
+      timeoutMs != null ? setTimeout(onAbort, timeoutMs) : undefined;
+    try {
+      let url = this.apiUrl + params.url;
+      if (params.searchParams !== undefined) {
+        url += `?${params.searchParams.toString()}`;
+      }
+
+      const accessToken =
+        refreshedToken ?? (await this._options.getAccessToken?.());
+      let resp = await this._fetch(url, params, {
+        method: params.method,
+        signal: controller.signal,
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          UserId: this._options.getUserId?.() ?? "",
+          ...(params.body !== undefined &&
+            !(params.body instanceof FormData) && {
+              // If body is FormData then don't set Content-Type to application/json
+              "Content-Type": "application/json",
+            }),
+          ...params.headers,
+          ...(this._options.headers !== undefined && this._options.headers),
+        },
+        ...(params.body !== undefined &&
+          !(params.body instanceof FormData) && {
+            body: JSON.stringify(params.body),
+          }),
+        ...(params.body !== undefined &&
+          params.body instanceof FormData && { body: params.body }),
+      });
+      for (const middleware of this._options.middleware ?? []) {
+        resp = (await middleware.onFetchResponse?.(resp, params)) ?? resp;
+      }
+      // If Unauthorized, attempt to refresh the token once and replay the request
+      if (
+        resp.status === 401 &&
+        refreshedToken === undefined &&
+        this._refreshToken !== undefined
+      ) {
+        const newToken = await this._refreshToken();
+        if (newToken != null && newToken !== "") {
+          return await this._execute<T>(params, newToken);
+        }
+      }
+      // If Unauthorized and we've attempted to silently refresh the token and the token is still not working, signout and direct to home page
+      if (resp.status === 401) {
+        if (this._options.onUnauthorized !== undefined) {
+          this._options.onUnauthorized();
+        }
+        return {
+          succeeded: false,
+          data: undefined,
+          friendlyMessage: "",
+          logMessage: "",
+          response: resp,
+        } as ApiResponse<T>;
+      }
+      if (resp.status === 400) {
+        if (params.failureMessage !== undefined) {
+          if (!params.hideFailureMessage) {
+            this._options.onError?.(params.failureMessage);
+          }
+        } else if (
+          resp.headers.get("content-type")?.includes("application/json")
+        ) {
+          // Parse even if the message is hidden so callers can read the field errors
+          const apiResponse = (await resp.json()) as ApiResponse<any>;
+          if (!params.hideFailureMessage) {
+            this._options.onError?.(apiResponse.friendlyMessage);
+          }
+          console.error(apiResponse.logMessage);
+          return apiResponse;
+        }
+      }
+      if (resp.ok === false) {
+        const message = await resp.text();
+        return {
+          succeeded: false,
+          data: undefined,
+          friendlyMessage: message,
+          logMessage: message,
+          response: resp,
+        } as ApiResponse<T>;
+      }
+      // If we received a json response
+      const contentType = resp.headers.get("content-type");
+      if (
+        contentType &&
+        contentType.indexOf("application/octet-stream") !== -1
+      ) {
+        (this._options.onFile ?? saveAsFile)(
+          await resp.blob(),
+          params.fileName ?? "file"
+        );
+      }
+      if (contentType && contentType.indexOf("application/json") !== -1) {
+        const json = (await resp.json()) as ApiResponse<T>;
+        if (json.succeeded === false) {
+          if (
+            params.hideFailureMessage === undefined ||
+            params.hideFailureMessage === false
+          ) {
+            this._options.onError?.(json.friendlyMessage);
+          }
+          console.error(json.logMessage);
+        }
+        return json;
+      } else {
+        // Request succeeded, but the response is not Json
+        return {
+          succeeded: true,
+          data: resp.body as any,
+          friendlyMessage: "",
+          logMessage: "",
+          response: resp,
+        };
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Cancelled by the caller, the response is no longer wanted
+        if (params.signal?.aborted === true) {
+          return abortedResponse<T>();
+        }
+        const message = `The request timed out after ${timeoutMs}ms`;
+        console.error(message);
+        if (
+          params.hideFailureMessage === undefined ||
+          params.hideFailureMessage === false
+        ) {
+          this._options.onError?.(params.failureMessage ?? message);
+        }
+        return {
+          succeeded: false,
+          data: undefined,
+          friendlyMessage: message,
+          logMessage: message,
+          response: undefined,
+        } as ApiResponse<T>;
+      }
+      console.error(error);
+      if (
+        (params.hideFailureMessage === undefined ||
+          params.hideFailureMessage === false) &&
+        params.failureMessage !== undefined
+      ) {
+        this._options.onError?.(JSON.stringify(error));
+      }
+      return {
+        succeeded: false,
+        data: undefined,
+        friendlyMessage: "",
+        logMessage: "",
+        response: undefined,
+      } as ApiResponse<T>;
+    } finally {
+      clearTimeout(timeout);
+      params.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  async hasAllPermissions(permissions: string[], options?: RequestOptions) {
+    const resp = await this.execute({
+      ...options,
+      url: API_DATA_PERMISSIONS,
+      method: "POST",
+      body: {
+        method: "has_permissions",
+        parameters: {
+          permissionNames: permissions,
+        },
+      },
+    });
+    if (resp.succeeded === true) {
+      const permissionsData = resp.data as string[];
+      if (permissionsData.length === permissions.length) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async hasAnyPermissions(permissions: string[], options?: RequestOptions) {
+    const resp = await this.execute({
+      ...options,
+      url: API_DATA_PERMISSIONS,
+      method: "POST",
+      body: {
+        method: "has_permissions",
+        parameters: {
+          permissionNames: permissions,
+        },
+      },
+    });
+    if (resp.succeeded === true) {
+      const permissionsData = resp.data as string[];
+      if (permissionsData.length > 0) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async metadata(tableName: string, options?: RequestOptions) {
+    const { cache, ...requestOptions } = options ?? {};
+    const resp = await this._query<MetadataResponse>(
+      `metadata:${tableName}`,
+      [],
+      {
+        ...requestOptions,
+        url: API_DATA_METADATA,
+        method: "POST",
+        body: {
+          method: "table_metadata",
+          parameters: {
+            tableName: tableName,
+          },
+        },
+      },
+      cache ?? true
+    );
+    return resp?.data as MetadataResponse;
+  }
+
+  async tables(
+    tag?: string,
+    options?: RequestOptions & { includeMetadata?: boolean }
+  ) {
+    const { includeMetadata, ...requestOptions } = options ?? {};
+    const resp = await this.execute<TablesResponse[]>({
+      ...requestOptions,
+      url: API_DATA_METADATA,
+      method: "POST",
+      body: {
+        method: "table_list",
+        parameters: {
+          tag: tag,
+          includeMetadata: includeMetadata,
+        },
+      },
+    });
+    return resp;
+  }
+
+  async create<T>(
+    tableName: string,
+    fields: T,
+    parameters: any = null,
+    options?: RequestOptions
+  ) {
+    const resp = await this.execute<T>({
+      ...options,
+      method: "POST",
+      url: API_DATA_CREATE,
+      body: {
+        tableName: tableName,
+        fields: fields,
+        parameters: parameters,
+      },
+    });
+    return resp;
+  }
+
+  async update<T>(
+    tableName: string,
+    fields: T,
+    parameters?: any,
+    options?: RequestOptions
+  ) {
+    const resp = await this.execute<T>({
+      ...options,
+      method: "PATCH",
+      url: API_DATA_UPDATE,
+      body: {
+        tableName: tableName,
+        fields: fields,
+        parameters: parameters,
+      },
+    });
+    return resp;
+  }
+
+  async delete<T>(
+    tableName: string,
+    id: string,
+    parameters?: any,
+    options?: RequestOptions
+  ) {
+    const resp = await this.execute<T>({
+      ...options,
+      method: "DELETE",
+      url: API_DATA_DELETE,
+      body: {
+        tableName: tableName,
+        fields: {
+          [`${tableName}Id`]: id,
+        },
+        parameters: parameters,
+      },
+    });
+    return resp;
+  }
+
+  async upsert<T>(
+    tableName: string,
+    fields: T,
+    parameters?: any,
+    options?: RequestOptions
+  ) {
+    const resp = await this.execute<T>({
+      ...options,
+      method: "POST",
+      url: API_DATA_UPSERT,
+      body: {
+        tableName: tableName,
+        fields: fields,
+        parameters: parameters,
+      },
+    });
+    return resp;
+  }
+
+  async bulkCreate<T>(
+    entities: T[],
+    parameters: any = null,
+    options?: RequestOptions
+  ) {
+    const resp = await this.execute<T>({
+      ...options,
+      method: "POST",
+      url: API_DATA_CREATE,
+      body: {
+        entities: entities,
+        parameters: parameters,
+      },
+    });
+    return resp;
+  }
+
+  async bulkUpdate<T>(
+    entities: T[],
+    parameters: any = null,
+    options?: RequestOptions
+  ) {
+    const resp = await this.execute<T>({
+      ...options,
+      method: "PATCH",
+      url: API_DATA_UPDATE,
+      body: {
+        entities: entities,
+        parameters: parameters,
+      },
+    });
+    return resp;
+  }
+
+  async bulkDelete<T>(
+    entities: T[],
+    parameters: any = null,
+    options?: RequestOptions
+  ) {
+    const resp = await this.execute<T>({
+      ...options,
+      method: "DELETE",
+      url: API_DATA_DELETE,
+      body: {
+        entities: entities,
+        parameters: parameters,
+      },
+    });
+    return resp;
+  }
+
+  async bulkUpsert<T>(
+    entities: T[],
+    parameters: any = null,
+    options?: RequestOptions
+  ) {
+    const resp = await this.execute<T>({
+      ...options,
+      method: "POST",
+      url: API_DATA_UPSERT,
+      body: {
+        entities: entities,
+        parameters: parameters,
+      },
+    });
+    return resp;
+  }
+
+  // Runs every operation of the transaction in one bulk request, the data is the created records by temp id
+  async transaction(
+    transaction: Transaction,
+    options?: RequestOptions
+  ): Promise<ApiResponse<TransactionResult>> {
+    // Temp ids are set as the primary key from the metadata of each table
+    const primaryKeys: PrimaryKeys = {};
+    for (const tableName of transaction.tableNames) {
+      const metadata = await this.metadata(tableName, {
+        signal: options?.signal,
+      });
+      if (metadata?.primaryKey != null) {
+        primaryKeys[tableName] = metadata.primaryKey;
+      }
+    }
+    const resp = await this.execute<any[]>({
+      ...options,
+      url: API_DATA_BULK,
+      method: "POST",
+      body: transaction.toBulkRequest(primaryKeys),
+    });
+    return {
+      ...resp,
+      data: resp.succeeded
+        ? transaction.getResult(resp.data, primaryKeys)
+        : resp.data,
+    };
+  }
+
+  // Reads and permission checks in one round trip, each has its own result
+  async bulkRead(request: BulkReadRequest, options?: RequestOptions) {
+    const resp = await this.execute<BulkReadResponse>({
+      ...options,
+      url: API_DATA_BULK_READ,
+      method: "POST",
+      body: request,
+    });
+    return resp;
+  }
+
+  // Streams the records changed on the server until the signal is aborted, resolves when the server closes the stream
+  async changes(
+    options: ChangeStreamOptions,
+    refreshedToken?: string
+  ): Promise<void> {
+    const accessToken =
+      refreshedToken ?? (await this._options.getAccessToken?.());
+    const resp = await fetch(this.apiUrl + API_DATA_CHANGES, {
+      method: "GET",
+      signal: options.signal,
+      headers: {
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${accessToken}`,
+        UserId: this._options.getUserId?.() ?? "",
+        ...(this._options.headers !== undefined && this._options.headers),
+      },
+    });
+    if (
+      resp.status === 401 &&
+      refreshedToken === undefined &&
+      this._refreshToken !== undefined
+    ) {
+      const newToken = await this._refreshToken();
+      if (newToken != null && newToken !== "") {
+        return await this.changes(options, newToken);
+      }
+    }
+    if (resp.status === 401) {
+      this._options.onUnauthorized?.();
+    }
+    if (!resp.ok || resp.body == null) {
+      throw new Error(`Failed to open the change stream (${resp.status}).`);
+    }
+    options.onOpen?.();
+    await readEventStream(resp.body, (data) =>
+      options.onChange(JSON.parse(data))
+    );
+  }
+
+  async bulk<T>(
+    request: BulkRequest,
+    parameters: any = null,
+    options?: RequestOptions
+  ) {
+    const resp = await this.execute<T>({
+      ...options,
+      url: API_DATA_BULK,
+      method: "POST",
+      body: request,
+    });
+    return resp;
+  }
+
+  async read<T>(body: ReadRequest, options?: RequestOptions) {
+    const { cache, ...requestOptions } = options ?? {};
+    const resp = (await this._query<T>(
+      `read:${JSON.stringify(body)}`,
+      getReadRequestTables(body),
+      {
+        ...requestOptions,
+        method: "POST",
+        url: API_DATA_READ,
+        body: body,
+      },
+      cache ?? false
+    )) as ApiResponse<ReadResponse<T>>;
+    return resp;
+  }
+
+  // The number of records the read matches, without reading them, ie: for badges and pagers
+  async count(body: ReadRequest, options?: RequestOptions) {
+    const resp = await this.read<never>(
+      { ...body, page: 1, maxResults: 1, orderBy: [], countOnly: true },
+      options
+    );
+    return { ...resp, data: resp.data?.totalResults } as ApiResponse<number>;
+  }
+
+  // Pages through every record, ie: for await (const record of client.readAll(request)) {}
+  readAll<T>(body: ReadRequest, options?: ReadAllOptions) {
+    return readAll<T>(this, body, options);
+  }
+
+  async action<T>(
+    actionName: string,
+    parameters?: any,
+    fileName?: string,
+    options?: RequestOptions
+  ) {
+    const resp = await this.execute<T>({
+      ...options,
+      method: "POST",
+      url: API_DATA_ACTION,
+      body: {
+        name: actionName,
+        parameters: parameters,
+      },
+      fileName: fileName,
+    });
+    return resp;
+  }
+
+  async file<T>(formData: FormData, options?: RequestOptions) {
+    const resp = await this.execute<T>({
+      ...options,
+      method: "POST",
+      url: API_DATA_FILE,
+      body: formData,
+    });
+    return resp;
+  }
+}
+
+export default XamsClient;
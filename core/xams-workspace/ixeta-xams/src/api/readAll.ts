@@ -0,0 +1,138 @@
+import { ApiResponse } from "./ApiResponse";
+import { ReadRequest } from "./ReadRequest";
+import { ReadResponse } from "./ReadResponse";
+import type { RequestOptions, XamsClient } from "./XamsClient";
+
+export interface ReadAllOptions extends RequestOptions {
+  pageSize?: number; // Records per request, defaults to 500
+  concurrency?: number; // Pages requested at once with page number paging, defaults to 1
+  // Page on a unique order key instead of page numbers so records added or removed while reading
+  // aren't skipped or repeated, the key defaults to the primary key in the table's metadata
+  keyset?: boolean | { field: string };
+}
+
+export interface ReadAllIterator<T> extends AsyncIterable<T> {
+  pages: () => AsyncIterableIterator<ReadResponse<T>>;
+  toArray: () => Promise<T[]>;
+}
+
+// Thrown by the iterator when a page fails to load, including when it's aborted
+export class ReadAllError extends Error {
+  response: ApiResponse<any>;
+
+  constructor(response: ApiResponse<any>) {
+    super(
+      response.aborted === true
+        ? "The read was aborted."
+        : response.friendlyMessage || "Failed to read records."
+    );
+    this.response = response;
+  }
+}
+
+const DEFAULT_PAGE_SIZE = 500;
+
+export const readAll = <T>(
+  client: XamsClient,
+  request: ReadRequest,
+  options?: ReadAllOptions
+): ReadAllIterator<T> => {
+  const { pageSize, concurrency, keyset, ...requestOptions } = options ?? {};
+  const maxResults = pageSize ?? DEFAULT_PAGE_SIZE;
+
+  const readPage = async (pageRequest: ReadRequest) => {
+    const resp = await client.read<T>(pageRequest, requestOptions);
+    if (!resp.succeeded) {
+      throw new ReadAllError(resp);
+    }
+    return resp.data;
+  };
+
+  async function* offsetPages() {
+    const first = await readPage({ ...request, page: 1, maxResults });
+    yield first;
+    const limit = Math.max(concurrency ?? 1, 1);
+    const pending: Promise<ReadResponse<T>>[] = [];
+    let next = 2;
+    while (next <= first.pages || pending.length > 0) {
+      while (next <= first.pages && pending.length < limit) {
+        const page = readPage({ ...request, page: next++, maxResults });
+        // Failures are thrown when the page is reached, not while an earlier page is awaited
+        page.catch(() => undefined);
+        pending.push(page);
+      }
+      yield await pending.shift()!;
+    }
+  }
+
+  const getKeysetField = async () => {
+    if (typeof keyset === "object") {
+      return keyset.field;
+    }
+    const metadata = await client.metadata(request.tableName, {
+      signal: requestOptions.signal,
+    });
+    if (metadata?.primaryKey == null) {
+      throw new Error(
+        `Failed to read the primary key of ${request.tableName}, set keyset.field to page on another field.`
+      );
+    }
+    return metadata.primaryKey;
+  };
+
+  async function* keysetPages() {
+    const field = await getKeysetField();
+    const fields =
+      request.fields === undefined ||
+      request.fields.includes("*") ||
+      request.fields.includes(field)
+        ? request.fields
+        : [...request.fields, field];
+    let lastKey: any = undefined;
+    while (true) {
+      const page = await readPage({
+        ...request,
+        fields: fields,
+        page: 1,
+        maxResults: maxResults,
+        orderBy: [{ field: field, order: "asc" }],
+        filters:
+          lastKey === undefined
+            ? request.filters
+            : [
+                ...(request.filters ?? []),
+                { field: field, operator: ">", value: String(lastKey) },
+              ],
+      });
+      yield page;
+      if (page.results.length < maxResults) {
+        return;
+      }
+      lastKey = (page.results[page.results.length - 1] as any)[field];
+      if (lastKey == null) {
+        throw new Error(`${field} can't be null to use it as the keyset.`);
+      }
+    }
+  }
+
+  const pages = () =>
+    keyset !== undefined && keyset !== false ? keysetPages() : offsetPages();
+
+  async function* records() {
+    for await (const page of pages()) {
+      yield* page.results;
+    }
+  }
+
+  return {
+    pages: pages,
+    toArray: async () => {
+      const results: T[] = [];
+      for await (const page of pages()) {
+        results.push(...page.results);
+      }
+      return results;
+    },
+    [Symbol.asyncIterator]: records,
+  };
+};
@@ -6,5 +6,7 @@ export const API_DATA_UPDATE = `/data/Update`;
 export const API_DATA_DELETE = `/data/Delete`;
 export const API_DATA_UPSERT = `/data/Upsert`;
 export const API_DATA_BULK = `/data/Bulk`;
+export const API_DATA_BULK_READ = `/data/BulkRead`;
+export const API_DATA_CHANGES = `/data/Changes`;
 export const API_DATA_ACTION = `/data/Action`;
 export const API_DATA_FILE = `/data/File`;
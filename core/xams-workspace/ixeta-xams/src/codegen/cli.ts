@@ -0,0 +1,100 @@
+import fs from "fs";
+import path from "path";
+import { XamsClient } from "../api/XamsClient";
+import {
+  MetadataSnapshot,
+  generateTypes,
+  getMetadataSnapshot,
+} from "./generateTypes";
+
+const usage = `Usage: xams-codegen [options]
+
+Generates TypeScript entity types from Xams table metadata.
+
+Options:
+  --url <apiUrl>          Xams api url to read metadata from
+  --token <token>         Access token, defaults to the XAMS_TOKEN environment variable
+  --user-id <userId>      UserId header, defaults to the XAMS_USER_ID environment variable
+  --tag <tag>             Only include tables with this tag
+  --snapshot <file>       Read metadata from a saved snapshot instead of the api
+  --save-snapshot <file>  Save the metadata read from the api to a snapshot
+  --out <file>            Output file, defaults to xams-types.ts
+  --help                  Show this message
+`;
+
+const getArgs = (argv: string[]) => {
+  const args: { [key: string]: string } = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      throw new Error(`Unexpected argument ${arg}`);
+    }
+    const name = arg.slice(2);
+    if (name === "help") {
+      args[name] = "true";
+      continue;
+    }
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith("--")) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+    args[name] = value;
+    i++;
+  }
+  return args;
+};
+
+const main = async () => {
+  const args = getArgs(process.argv.slice(2));
+  if (
+    args["help"] != null ||
+    (args["url"] == null && args["snapshot"] == null)
+  ) {
+    console.log(usage);
+    return;
+  }
+
+  let snapshot: MetadataSnapshot;
+  if (args["snapshot"] != null) {
+    snapshot = JSON.parse(
+      fs.readFileSync(args["snapshot"], "utf8")
+    ) as MetadataSnapshot;
+  } else {
+    const client = new XamsClient({
+      apiUrl: args["url"],
+      getAccessToken: () => args["token"] ?? process.env.XAMS_TOKEN,
+      getUserId: () => args["user-id"] ?? process.env.XAMS_USER_ID,
+      onError: (message) => console.error(message),
+    });
+    snapshot = await getMetadataSnapshot(client, args["tag"]);
+    if (args["save-snapshot"] != null) {
+      fs.writeFileSync(
+        args["save-snapshot"],
+        JSON.stringify(snapshot, null, 2)
+      );
+      console.log(`Saved metadata snapshot to ${args["save-snapshot"]}`);
+    }
+  }
+
+  if (args["tag"] != null && args["snapshot"] != null) {
+    const tables = snapshot.tables
+      .filter((t) => t.tag === args["tag"])
+      .map((t) => t.tableName);
+    snapshot = {
+      ...snapshot,
+      metadata: snapshot.metadata.filter((m) => tables.includes(m.tableName)),
+    };
+  }
+
+  const out = args["out"] ?? "xams-types.ts";
+  fs.mkdirSync(path.dirname(path.resolve(out)), { recursive: true });
+  fs.writeFileSync(out, generateTypes(snapshot));
+  console.log(
+    `Generated types for ${snapshot.metadata.length} tables in ${out}`
+  );
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
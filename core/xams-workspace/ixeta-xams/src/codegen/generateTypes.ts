@@ -0,0 +1,199 @@
+import { MetadataField, MetadataResponse } from "../api/MetadataResponse";
+import { TablesResponse } from "../api/TablesResponse";
+import { XamsClient } from "../api/XamsClient";
+
+// Everything the generator needs, can be saved to disk to generate types offline
+export interface MetadataSnapshot {
+  tables: TablesResponse[];
+  metadata: MetadataResponse[];
+  options?: OptionValue[];
+}
+
+export interface OptionValue {
+  name: string;
+  label: string;
+  value?: string | null;
+}
+
+const NUMBER_TYPES = ["Single", "Int16", "Int32", "Int64", "Double", "Decimal"];
+const STRING_TYPES = ["String", "Guid", "DateTime", "Lookup", "Char"];
+
+const toIdentifier = (name: string) => {
+  const identifier = name.replace(/[^A-Za-z0-9_$]/g, "_");
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+};
+
+const toStringLiteral = (value: string) => JSON.stringify(value);
+
+export const getOptionTypeName = (option: string) =>
+  `${toIdentifier(option)}Option`;
+
+export const getFieldType = (field: MetadataField) => {
+  let type = "any";
+  if (NUMBER_TYPES.includes(field.type)) {
+    type = "number";
+  } else if (field.type === "Boolean") {
+    type = "boolean";
+  } else if (STRING_TYPES.includes(field.type)) {
+    type = "string";
+  }
+  return field.isNullable ? `${type} | null` : type;
+};
+
+export const generateTypes = (snapshot: MetadataSnapshot) => {
+  const lines: string[] = [
+    "// This file is generated by xams-codegen, do not edit it by hand",
+    "",
+  ];
+
+  const metadata = [...snapshot.metadata].sort((a, b) =>
+    a.tableName.localeCompare(b.tableName)
+  );
+
+  // Table names
+  lines.push(
+    `export type TableName =${
+      metadata.length === 0
+        ? " never"
+        : metadata.map((m) => `\n  | ${toStringLiteral(m.tableName)}`).join("")
+    };`,
+    ""
+  );
+
+  // Option labels, option fields return the label of the selected option
+  const optionNames = Array.from(
+    new Set(
+      metadata
+        .flatMap((m) =>
+          m.fields.filter((f) => f.option != null && f.option !== "")
+        )
+        .map((f) => f.option)
+    )
+  ).sort();
+  for (const optionName of optionNames) {
+    const values = Array.from(
+      new Set(
+        (snapshot.options ?? [])
+          .filter((o) => o.name === optionName)
+          .map((o) => o.label)
+          .filter((v): v is string => v != null)
+      )
+    );
+    lines.push(
+      `export type ${getOptionTypeName(optionName)} =${
+        values.length === 0
+          ? " string"
+          : values.map((v) => `\n  | ${toStringLiteral(v)}`).join("")
+      };`,
+      ""
+    );
+  }
+
+  // Entities
+  for (const table of metadata) {
+    const fieldLines: string[] = [];
+    const fieldNames: string[] = [];
+    const addField = (name: string, type: string, optional: boolean) => {
+      if (fieldNames.includes(name)) {
+        return;
+      }
+      fieldNames.push(name);
+      fieldLines.push(
+        `  ${
+          /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : toStringLiteral(name)
+        }${optional ? "?" : ""}: ${type};`
+      );
+    };
+
+    const primaryKey = table.primaryKey ?? `${table.tableName}Id`;
+    const fields = [...table.fields].sort((a, b) => a.order - b.order);
+    if (fields.find((f) => f.name === primaryKey) === undefined) {
+      addField(primaryKey, "string", false);
+    }
+    for (const field of fields) {
+      addField(field.name, getFieldType(field), false);
+      // Lookups are returned with the name of the related record
+      if (
+        field.type === "Lookup" &&
+        field.lookupName != null &&
+        field.lookupName !== ""
+      ) {
+        addField(
+          field.lookupName,
+          field.option != null && field.option !== ""
+            ? `${getOptionTypeName(field.option)} | null`
+            : "string | null",
+          true
+        );
+      }
+    }
+    addField("_ui_info_", "{ canDelete: boolean; canUpdate: boolean }", true);
+
+    lines.push(
+      `export interface ${toIdentifier(table.tableName)} {`,
+      ...fieldLines,
+      "}",
+      ""
+    );
+  }
+
+  // Table name to entity type
+  lines.push(
+    "export interface Entities {",
+    ...metadata.map(
+      (m) => `  ${toStringLiteral(m.tableName)}: ${toIdentifier(m.tableName)};`
+    ),
+    "}",
+    ""
+  );
+
+  return lines.join("\n");
+};
+
+export const getMetadataSnapshot = async (
+  client: XamsClient,
+  tag?: string
+): Promise<MetadataSnapshot> => {
+  const tablesResp = await client.tables(tag);
+  if (!tablesResp.succeeded) {
+    throw new Error(
+      `Failed to retrieve the table list: ${tablesResp.friendlyMessage}`
+    );
+  }
+
+  const metadata: MetadataResponse[] = [];
+  for (const table of tablesResp.data) {
+    const tableMetadata = await client.metadata(table.tableName, {
+      cache: false,
+    });
+    if (tableMetadata == null) {
+      throw new Error(`Failed to retrieve metadata for ${table.tableName}`);
+    }
+    metadata.push(tableMetadata);
+  }
+
+  let options: OptionValue[] = [];
+  const hasOptions = metadata.some((m) =>
+    m.fields.some((f) => f.option != null && f.option !== "")
+  );
+  if (hasOptions) {
+    const results = await client
+      .readAll<any>({
+        tableName: "Option",
+        fields: ["Name", "Label", "Value"],
+        orderBy: [{ field: "Order" }, { field: "Label" }],
+      })
+      .toArray();
+    options = results.map((o) => ({
+      name: o.Name,
+      label: o.Label,
+      value: o.Value,
+    }));
+  }
+
+  return {
+    tables: tablesResp.data,
+    metadata: metadata,
+    options: options,
+  };
+};
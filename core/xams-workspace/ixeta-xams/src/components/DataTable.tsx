@@ -39,4 +39,7 @@ const DataTable = forwardRef((props: DataTableProps, ref) => {
   return <DataTableImp key={key} ref={dataTableRef} {...props} />;
 });
 
-export default DataTable;
+// forwardRef drops the type parameter, so restore it for typed field names ie: <DataTable<Widget> />
+export default DataTable as <T = any>(
+  props: DataTableProps<T> & React.RefAttributes<DataTableRef>
+) => React.ReactElement | null;
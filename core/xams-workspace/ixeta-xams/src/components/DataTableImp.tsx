@@ -12,8 +12,9 @@ import React, {
 } from "react";
 import TableShell from "./datatable/TableShell";
 import DataForm, { DataFormRef } from "./datatable/DataForm";
-import { usePermissionStore } from "../stores/usePermissionStore";
-import { ReadRequest } from "../api/ReadRequest";
+import { useStore } from "zustand";
+import { useXamsStores } from "../contexts/AuthContext";
+import { getDataTableReadRequest } from "./datatable/DataTableReadRequest";
 import {
   dataTableInitState,
   datatableReducer,
@@ -31,6 +32,7 @@ import {
 import DataRows from "./datatable/DataRows";
 import { FormContext } from "../contexts/FormContext";
 import useGuid from "../hooks/useGuid";
+import useEntityChanges from "../hooks/useEntityChanges";
 import { isNotNull } from "../utils/Util";
 
 export const DataTableContext = React.createContext<DataTableShape | null>(
@@ -51,16 +53,42 @@ const DataTable = forwardRef(
   (props: DataTableProps, ref: Ref<DataTableRef>) => {
     const authRequest = useAuthRequest();
     const formContext = useContext(FormContext);
-    const permissionStore = usePermissionStore();
+    const stores = useXamsStores();
+    const permissionStore = useStore(stores.permission);
+    const getMetadata = useStore(stores.metadata, (state) => state.getMetadata);
     const guid = useGuid();
     const dataFormRef = useRef<DataFormRef>(null);
     const [id, setId] = useState<string>(guid.get());
+    // State prefetched on the server for this table, skips the initial load
+    const hydratedRef = useRef(
+      props.initialState?.tableName === props.tableName &&
+        props.disabledMessage == null
+    );
     const [state, dispatch] = useReducer(datatableReducer, {
       ...dataTableInitState,
+      ...(hydratedRef.current && props.initialState != null
+        ? {
+            metadata: props.initialState.metadata,
+            joinMetadata: props.initialState.joinMetadata,
+            permissions: props.initialState.permissions,
+            data: props.initialState.data,
+            activeSwitch: props.initialState.activeSwitch,
+            isLoadingData: false,
+            type: "INITIAL_LOAD_COMPLETE" as const,
+          }
+        : {}),
       id: id,
     });
 
     const stateRef = useRef(state);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const tableVersion = useStore(
+      stores.queryCache,
+      (s) => s.tableVersions[props.tableName]
+    );
+    const tableVersionRef = useRef(tableVersion);
+    // The table version when the data was last loaded
+    const loadVersionRef = useRef(tableVersion);
 
     if (props.fields != null && props.columnWidths != null) {
       if (props.fields.length !== props.columnWidths.length) {
@@ -75,20 +103,17 @@ const DataTable = forwardRef(
         type: "START_INITIAL_LOAD",
       });
 
-      const metadata =
+      const [metadata, ...joinMetas] = await Promise.all([
         state.metadata != null && state.metadata.tableName === props.tableName
           ? state.metadata
-          : await authRequest.metadata(props.tableName);
-      const joinMetadata: MetadataResponse[] = [];
-
-      if (props.joins != null) {
-        for (let join of props.joins) {
-          const joinMeta = await authRequest.metadata(join.toTable);
-          if (joinMeta != null) {
-            joinMetadata.push(joinMeta);
-          }
-        }
-      }
+          : getMetadata(authRequest, props.tableName),
+        ...(props.joins ?? []).map((join) =>
+          getMetadata(authRequest, join.toTable)
+        ),
+      ]);
+      const joinMetadata = joinMetas.filter(
+        (m): m is MetadataResponse => m != null
+      );
 
       if (metadata == null) {
         dispatch({
@@ -134,6 +159,7 @@ const DataTable = forwardRef(
         orderBy: props.orderBy,
         searchField: "",
         searchValue: "",
+        abortable: false,
       });
 
       if (!dataResp?.succeeded) {
@@ -179,6 +205,10 @@ const DataTable = forwardRef(
     };
 
     const getData = async (options?: GetDataOptions | null) => {
+      if (options?.setData === true) {
+        loadVersionRef.current =
+          stores.queryCache.getState().tableVersions[props.tableName];
+      }
       if (
         options?.setData != null &&
         options.setData === true &&
@@ -193,97 +223,34 @@ const DataTable = forwardRef(
       const metadata =
         options?.metadata ??
         state.metadata ??
-        (await authRequest.metadata(props.tableName));
-
-      const fields = (props.fields?.filter(
-        (f) => typeof f === "string" && !f.includes(".") // Exclude joined fields
-      ) ??
-        options?.fields?.filter(
-          (f) => typeof f === "string" && !f.includes(".") // Exclude joined fields
-        ) ??
-        metadata?.fields.map((f) => f.name).slice(0, 7)) as string[];
-
-      // For every field that ends with Id, check the metadata to see if it is of type "Lookup"
-      // If it is, add the corresponding field to the fields array
-      let lookupFields: string[] = [];
-      fields?.forEach((f) => {
-        if (f.endsWith("Id")) {
-          const metadataField = metadata?.fields.find((x) => x.name === f);
-          if (
-            metadataField?.type === "Lookup" &&
-            fields.find((x) => x === metadataField.lookupName) === undefined
-          ) {
-            lookupFields.push(metadataField.lookupName);
-          }
-        }
+        (await getMetadata(authRequest, props.tableName));
+
+      const readRequest = getDataTableReadRequest(props, metadata, {
+        page: options == null ? 1 : options.page,
+        fields: options?.fields,
+        orderBy: options?.orderBy ?? state.data?.orderBy ?? [],
+        searchField:
+          options == null ? "" : options.searchField ?? state.searchField ?? "",
+        searchValue:
+          options == null ? "" : options.searchValue ?? state.searchValue ?? "",
+        active: options?.active,
       });
-      fields?.push(...lookupFields);
 
-      // Add any additional fields to be queried
-      if (props.additionalFields != null) {
-        for (let f of props.additionalFields) {
-          if (fields.find((x) => x === f) === undefined) {
-            fields.push(f);
-          }
-        }
-      }
+      // Abort the previous request so a stale response can't overwrite newer data
+      abortControllerRef.current?.abort();
+      const abortController = new AbortController();
+      abortControllerRef.current =
+        options?.abortable === false ? null : abortController;
 
-      // Always make sure the Id field is included
-      if (fields?.find((f) => f === props.tableName + "Id") === undefined) {
-        fields?.push(props.tableName + "Id");
-      }
+      const dataResp = await authRequest.read<any>(readRequest, {
+        signal: abortController.signal,
+        cache: options?.cache ?? true,
+      });
 
-      // If deactivate instead of delete is enabled, add the IsActive field to the fields
-      if (props.deleteBehavior === "Deactivate") {
-        if (fields.find((f) => f === "IsActive") === undefined) {
-          fields.push("IsActive");
-        }
+      if (dataResp.aborted === true) {
+        return dataResp;
       }
 
-      const dataResp = await authRequest.read<any>({
-        tableName: props.tableName as string,
-        page: options == null ? 1 : options.page,
-        fields: fields,
-        maxResults: props.maxResults ?? 10,
-        except: props.except,
-        orderBy: options?.orderBy ?? state.data?.orderBy ?? [],
-        filters: [
-          {
-            field:
-              options == null
-                ? ""
-                : options.searchField ?? state.searchField ?? "",
-            value:
-              options == null
-                ? ""
-                : options.searchValue ?? state.searchValue ?? "",
-          },
-          ...(props.showActiveSwitch === true
-            ? [
-                {
-                  field: "IsActive",
-                  operator: "==",
-                  value:
-                    options?.active != null
-                      ? options?.active.toString()
-                      : "true",
-                },
-              ]
-            : []),
-          // If there are filters passed in, add them to the request
-          ...(props.filters !== undefined
-            ? props.filters.map((f) => {
-                return {
-                  field: f.field,
-                  operator: f.operator,
-                  value: f.value,
-                };
-              })
-            : []),
-        ],
-        joins: props.joins !== undefined ? props.joins : [],
-      } as ReadRequest);
-
       if (options?.setData != null && options.setData === true) {
         dispatch({
           type: "SET_DONE_LOADING",
@@ -297,7 +264,10 @@ const DataTable = forwardRef(
       return dataResp;
     };
 
-    const refresh = async (showLoading?: boolean) => {
+    const refresh = async (
+      showLoading?: boolean,
+      cache: boolean | "reload" = "reload"
+    ) => {
       if (props.disabledMessage == null) {
         let orderBy = state.data?.orderBy;
         if (orderBy == null || orderBy.length === 0) {
@@ -312,6 +282,7 @@ const DataTable = forwardRef(
           orderBy: orderBy, //stateRef.current.data?.orderBy ?? [],
           active: stateRef.current.activeSwitch === "Active" ? true : false,
           setData: true,
+          cache: cache,
         });
       }
     };
@@ -478,10 +449,66 @@ const DataTable = forwardRef(
 
     useEffect(() => {
       if (props.tableName !== undefined) {
+        if (hydratedRef.current && state.metadata != null) {
+          hydratedRef.current = false;
+          validateMetadata(state.metadata);
+          if (props.onInitialLoad != null) {
+            props.onInitialLoad(state.data.results);
+          }
+          return;
+        }
+        hydratedRef.current = false;
         onLoad();
       }
     }, [props.tableName, props.disabledMessage]);
 
+    // Another component changed this table, or a cached read was revalidated
+    useEffect(() => {
+      if (tableVersionRef.current === tableVersion) {
+        return;
+      }
+      tableVersionRef.current = tableVersion;
+      // This table's own saves and deletes reload it right after the mutation, wait for that before refreshing
+      const timeout = setTimeout(() => {
+        if (
+          loadVersionRef.current !== tableVersion &&
+          state.metadata != null &&
+          state.type !== "START_INITIAL_LOAD" &&
+          state.type !== "MISSING_READ_PERMISSIONS"
+        ) {
+          refresh(false, true);
+        }
+      }, 0);
+      return () => clearTimeout(timeout);
+    }, [tableVersion]);
+
+    // A record on the current page changed on the server, or a record was created that may belong on it
+    const liveRefreshRef = useRef<ReturnType<typeof setTimeout>>();
+    useEntityChanges(props.tableName, (change) => {
+      const current = stateRef.current;
+      if (
+        current.metadata == null ||
+        current.type === "START_INITIAL_LOAD" ||
+        current.type === "MISSING_READ_PERMISSIONS"
+      ) {
+        return;
+      }
+      const primaryKey = current.metadata.primaryKey;
+      if (
+        change.operation !== "CREATE" &&
+        !(current.data?.results ?? []).some(
+          (r: any) =>
+            String(r[primaryKey]).toLowerCase() === change.id.toLowerCase()
+        )
+      ) {
+        return;
+      }
+      // Changes usually arrive in bursts, ie: a bulk save, so refresh once
+      clearTimeout(liveRefreshRef.current);
+      liveRefreshRef.current = setTimeout(() => refresh(false), 250);
+    });
+    useEffect(() => () => clearTimeout(liveRefreshRef.current), []);
+
     useEffect(() => {
       if (state.isFormOpen && props.refreshInterval != null) {
         const interval = setInterval(async () => {
@@ -497,6 +524,14 @@ const DataTable = forwardRef(
       openForm: (recordData: any | undefined) => openForm(recordData, false),
       dataTableId: id,
       getRecords: () => state.data?.results,
+      getReadRequest: () =>
+        getDataTableReadRequest(props, stateRef.current.metadata, {
+          page: stateRef.current.data?.currentPage ?? 1,
+          orderBy: stateRef.current.data?.orderBy ?? [],
+          searchField: stateRef.current.searchField ?? "",
+          searchValue: stateRef.current.searchValue ?? "",
+          active: stateRef.current.activeSwitch === "Active",
+        }),
       setRecords: setRecords,
       showLoading: showLoading,
       sort: onSort,
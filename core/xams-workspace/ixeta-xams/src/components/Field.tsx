@@ -2,19 +2,22 @@ import React from "react";
 import { Checkbox, TextInput, Textarea, Tooltip } from "@mantine/core";
 import { DateInput } from "@mantine/dates";
 // import Lookup from "./Lookup";
-import useLookupStore, { LookupStoreInfo } from "../stores/useLookupStore";
+import { LookupStoreInfo } from "../stores/useLookupStore";
+import { useStore } from "zustand";
+import { useXamsStores } from "../contexts/AuthContext";
 import { LookupQuery } from "../reducers/formbuilderReducer";
 import { useFormContext } from "../contexts/FormContext";
 import { DateInputProps } from "@mantine/dates";
 import { MetadataField } from "../api/MetadataResponse";
+import { FieldName } from "../utils/FieldName";
 const RichText = React.lazy(() => import("./RichText"));
 const Lookup = React.lazy(() => import("./Lookup"));
 // const DateInput = React.lazy(() =>
 //   import("@mantine/dates").then((module) => ({ default: module.DateInput }))
 // );
 
-interface FieldProps {
-  name: string;
+interface FieldProps<T = any> {
+  name: FieldName<T>;
   label?: string | React.ReactNode;
   focus?: boolean;
   varient?: "rich" | "textarea";
@@ -31,12 +34,13 @@ interface FieldProps {
   allowNegative?: boolean;
 }
 
-const Field = (props: FieldProps) => {
+// Pass the entity type to check the field name, ie: <Field<Widget> name="Price" />
+const Field = <T = any,>(props: FieldProps<T>) => {
   const formContext = useFormContext();
   const field = formContext.formBuilder.metadata?.fields.find(
     (x) => x.name === props.name
   );
-  const lookupStore = useLookupStore();
+  const lookupStore = useStore(useXamsStores().lookup);
 
   // If the metadata hasn't loaded yet
   if (formContext.formBuilder.metadata == null) {
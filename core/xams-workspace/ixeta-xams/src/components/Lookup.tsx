@@ -12,7 +12,7 @@ import React, {
   useState,
 } from "react";
 import { LookupQuery } from "../reducers/formbuilderReducer";
-import { ReadOrderBy } from "../api/ReadRequest";
+import { ReadOrderBy, ReadRequest } from "../api/ReadRequest";
 
 type DataItem = {
   label: string;
@@ -67,6 +67,7 @@ const SelectItem = forwardRef<HTMLDivElement, ItemProps>(
 
 const Lookup = forwardRef((props: LookupProps, ref: Ref<HTMLInputElement>) => {
   const inputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const authRequest = useAuthRequest();
   const [selectedItem, setSelectedItem] = useState<DataItem | null>(
     props.defaultLabelValue !== undefined ? props.defaultLabelValue : null
@@ -92,7 +93,7 @@ const Lookup = forwardRef((props: LookupProps, ref: Ref<HTMLInputElement>) => {
     if (props.metaDataField.option !== "") {
       fields.push("Value");
     }
-    const readResp = await authRequest.read({
+    const readRequest: ReadRequest = {
       tableName: props.metaDataField.lookupTable,
       maxResults: 20,
       page: 1,
@@ -131,6 +132,16 @@ const Lookup = forwardRef((props: LookupProps, ref: Ref<HTMLInputElement>) => {
             },
           }
         : {}),
+    };
+
+    // Abort the previous search so a stale response can't overwrite newer results
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const readResp = await authRequest.read(readRequest, {
+      signal: abortController.signal,
+      cache: true,
     });
 
     if (!readResp || !readResp.succeeded) return;
@@ -177,6 +188,11 @@ const Lookup = forwardRef((props: LookupProps, ref: Ref<HTMLInputElement>) => {
     setData(results);
   };
 
+  // Abort the search in flight when the lookup is unmounted
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   useEffect(() => {
     if (
       debouncedSearchValue !== null &&
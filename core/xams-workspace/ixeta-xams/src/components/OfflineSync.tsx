@@ -0,0 +1,36 @@
+import { useEffect } from "react";
+import useAuthRequest from "../hooks/useAuthRequest";
+import { useStore } from "zustand";
+import { useXamsStores } from "../contexts/AuthContext";
+
+// Loads the queued mutations and replays them whenever the connection returns
+const OfflineSync = () => {
+  const authRequest = useAuthRequest();
+  const offline = useXamsStores().offline;
+  const isOnline = useStore(offline, (state) => state.isOnline);
+  const isLoaded = useStore(offline, (state) => state.isLoaded);
+
+  useEffect(() => {
+    const offlineStore = offline.getState();
+    offlineStore.load();
+    const onOnline = () => offlineStore.setOnline(true);
+    const onOffline = () => offlineStore.setOnline(false);
+    offlineStore.setOnline(navigator.onLine);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+    };
+  }, [offline]);
+
+  useEffect(() => {
+    if (isLoaded && isOnline) {
+      offline.getState().replay(authRequest);
+    }
+  }, [isLoaded, isOnline, authRequest]);
+
+  return null;
+};
+
+export default OfflineSync;
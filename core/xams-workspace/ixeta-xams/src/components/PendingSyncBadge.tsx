@@ -0,0 +1,45 @@
+import React from "react";
+import { Badge, Tooltip } from "@mantine/core";
+import { useStore } from "zustand";
+import { useXamsStores } from "../contexts/AuthContext";
+
+interface PendingSyncBadgeProps {
+  tableName: string;
+  recordId?: string;
+  className?: string;
+}
+
+// Shown while a record has offline changes that haven't been sent yet
+const PendingSyncBadge = (props: PendingSyncBadgeProps) => {
+  const mutations = useStore(
+    useXamsStores().offline,
+    (state) => state.mutations
+  ).filter(
+    (m) => m.tableName === props.tableName && m.recordId === props.recordId
+  );
+  const conflict = mutations.find((m) => m.conflict !== undefined)?.conflict;
+
+  if (props.recordId == null || mutations.length === 0) {
+    return <></>;
+  }
+
+  return (
+    <Tooltip
+      label={
+        conflict !== undefined
+          ? conflict.message
+          : "Saved offline, waiting to sync"
+      }
+    >
+      <Badge
+        className={props.className}
+        size="xs"
+        color={conflict !== undefined ? "red" : "yellow"}
+      >
+        {conflict !== undefined ? "Sync conflict" : "Pending sync"}
+      </Badge>
+    </Tooltip>
+  );
+};
+
+export default PendingSyncBadge;
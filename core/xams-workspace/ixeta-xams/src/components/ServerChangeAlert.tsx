@@ -0,0 +1,43 @@
+import React from "react";
+import { Alert, Button } from "@mantine/core";
+import { useFormBuilderType } from "../hooks/useFormBuilder";
+
+interface ServerChangeAlertProps {
+  formBuilder: useFormBuilderType;
+  className?: string;
+}
+
+// Warns that the record being edited was changed or deleted by someone else
+const ServerChangeAlert = (props: ServerChangeAlertProps) => {
+  const serverChange = props.formBuilder.serverChange;
+
+  if (serverChange == null) {
+    return <></>;
+  }
+
+  return (
+    <Alert
+      className={props.className}
+      color={serverChange.operation === "DELETE" ? "red" : "yellow"}
+      withCloseButton
+      onClose={props.formBuilder.dismissServerChange}
+    >
+      <div className="w-full flex justify-between items-center gap-2">
+        {serverChange.operation === "DELETE"
+          ? "This record has been deleted."
+          : "This record has been changed since it was opened, saving will overwrite the changes."}
+        {serverChange.operation === "UPDATE" && (
+          <Button
+            size="xs"
+            variant="default"
+            onClick={() => props.formBuilder.reload()}
+          >
+            Reload
+          </Button>
+        )}
+      </div>
+    </Alert>
+  );
+};
+
+export default ServerChangeAlert;
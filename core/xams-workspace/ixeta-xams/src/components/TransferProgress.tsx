@@ -0,0 +1,54 @@
+import React from "react";
+import { Button, Progress, Text } from "@mantine/core";
+import { RequestProgress } from "../api/XamsClient";
+
+interface TransferProgressProps {
+  label: string;
+  progress?: RequestProgress;
+  onCancel?: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// Progress of a file upload or download, animated while the size isn't known
+const TransferProgress = (props: TransferProgressProps) => {
+  const percent = props.progress?.percent;
+  const isKnown = percent !== undefined;
+
+  return (
+    <div className="w-full flex flex-col gap-2">
+      <div className="w-full flex justify-between">
+        <Text size="sm">{props.label}</Text>
+        {props.progress !== undefined && (
+          <Text size="sm" color="dimmed">
+            {isKnown
+              ? `${Math.round(percent)}%`
+              : formatBytes(props.progress.loaded)}
+          </Text>
+        )}
+      </div>
+      <Progress
+        value={isKnown ? percent : 100}
+        striped={!isKnown}
+        animate={!isKnown}
+      />
+      {props.onCancel !== undefined && (
+        <div className="w-full flex justify-end">
+          <Button variant="default" onClick={props.onCancel}>
+            Cancel
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransferProgress;
@@ -6,6 +6,8 @@ import SaveButton from "../SaveButton";
 import FormContainer from "../FormContainer";
 import { useDataTableContext } from "../DataTableImp";
 import { getDataOptions } from "./DataTableTypes";
+import PendingSyncBadge from "../PendingSyncBadge";
+import ServerChangeAlert from "../ServerChangeAlert";
 
 export interface DataFormRef {
   formBuilder: useFormBuilderType;
@@ -196,7 +198,17 @@ const DataForm = forwardRef((props: DataFormProps, ref: Ref<DataFormRef>) => {
         centered
       ></Modal>
       <Modal
-        title={getTitle()}
+        title={
+          <div className="flex items-center gap-2">
+            {getTitle()}
+            <PendingSyncBadge
+              tableName={formBuilder.tableName}
+              recordId={
+                (formBuilder.snapshot as any)?.[`${formBuilder.tableName}Id`]
+              }
+            />
+          </div>
+        }
         opened={
           ctx.formDisclosure.opened &&
           formBuilder.metadata != null &&
@@ -236,6 +248,7 @@ const DataForm = forwardRef((props: DataFormProps, ref: Ref<DataFormRef>) => {
         centered
       >
         <FormContainer formBuilder={formBuilder}>
+          <ServerChangeAlert formBuilder={formBuilder} className="mb-4" />
           {ctx.props.customForm !== undefined
             ? ctx.props.customForm(formBuilder, ctx.formDisclosure)
             : ctx.state.metadata !== undefined &&
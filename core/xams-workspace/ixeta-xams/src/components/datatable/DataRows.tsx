@@ -1,6 +1,7 @@
 import React from "react";
 import DataCell from "./DataCell";
 import { useDataTableContext } from "../DataTableImp";
+import PendingSyncBadge from "../PendingSyncBadge";
 
 const DataRows = () => {
   const ctx = useDataTableContext();
@@ -35,6 +36,12 @@ const DataRows = () => {
                     <DataCell key={key} record={r} fieldInfo={f}></DataCell>
                   );
                 })}
+                <td className="absolute right-1 top-1">
+                  <PendingSyncBadge
+                    tableName={ctx.props.tableName}
+                    recordId={r[ctx.props.tableName + "Id"]}
+                  />
+                </td>
               </tr>
             );
           })}
@@ -1,8 +1,10 @@
-import { Button, FileInput, Loader, Modal, Select } from "@mantine/core";
-import React, { useEffect } from "react";
+import { Button, FileInput, Modal, Select } from "@mantine/core";
+import React, { useEffect, useRef } from "react";
 import useAuthRequest from "../../hooks/useAuthRequest";
 import { API_DATA_FILE } from "../../apiurls";
+import { RequestProgress } from "../../api/XamsClient";
 import { useDataTableContext } from "../DataTableImp";
+import TransferProgress from "../TransferProgress";
 
 interface ImportDataProps {
   opened: boolean;
@@ -16,10 +18,14 @@ const DataTableImportData = (props: ImportDataProps) => {
   const [isLoading, setIsLoading] = React.useState<boolean>(false);
   const [operation, setOperation] = React.useState<string>("create,update");
   const [errors, setErrors] = React.useState<string[]>([]);
+  const [progress, setProgress] = React.useState<RequestProgress>();
+  const abortController = useRef<AbortController>();
 
   const onUpload = async () => {
     if (currentFile === null) return;
     setIsLoading(true);
+    setProgress(undefined);
+    abortController.current = new AbortController();
     const formData = new FormData();
     formData.append("file", currentFile);
     formData.append("name", "TABLE_ImportData");
@@ -32,8 +38,12 @@ const DataTableImportData = (props: ImportDataProps) => {
       method: "POST",
       body: formData,
       hideFailureMessage: true,
+      signal: abortController.current.signal,
+      onUploadProgress: setProgress,
     });
-    if (resp?.succeeded === false) {
+    if (resp?.aborted === true) {
+      // Cancelled, let the user choose another file
+    } else if (resp?.succeeded === false) {
       const data = resp.data as { errors: string[] };
       if (data != null && data.errors != null && data.errors.length > 0) {
         setErrors(data.errors);
@@ -47,6 +57,10 @@ const DataTableImportData = (props: ImportDataProps) => {
     setIsLoading(false);
   };
 
+  const onCancel = () => {
+    abortController.current?.abort();
+  };
+
   useEffect(() => {
     if (props.opened === true) {
       setIsLoading(false);
@@ -89,7 +103,13 @@ const DataTableImportData = (props: ImportDataProps) => {
           <div className={`w-full relative`}>
             {isLoading === true && (
               <div className="absolute w-full h-full flex justify-center items-center">
-                <Loader />
+                <TransferProgress
+                  label={
+                    progress?.percent === 100 ? "Processing..." : "Uploading..."
+                  }
+                  progress={progress}
+                  onCancel={onCancel}
+                />
               </div>
             )}
             <div
@@ -1,4 +1,4 @@
-import { Button, Menu, Text } from "@mantine/core";
+import { Button, Menu, Modal, Text } from "@mantine/core";
 import {
   IconTableExport,
   IconFileImport,
@@ -6,15 +6,18 @@ import {
   IconMessageCircle,
   IconFileExport,
 } from "@tabler/icons-react";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import useColor from "../../hooks/useColor";
-import usePermissionStore from "../../stores/usePermissionStore";
+import { useStore } from "zustand";
+import { useXamsStores } from "../../contexts/AuthContext";
 import { useDataTableContext } from "../DataTableImp";
 import useAuthRequest from "../../hooks/useAuthRequest";
 import { API_DATA_ACTION } from "../../apiurls";
 import DataTableImportData from "./DataTableImportData";
 import { useDisclosure } from "@mantine/hooks";
 import { ReadRequest } from "../../api/ReadRequest";
+import { RequestProgress } from "../../api/XamsClient";
+import TransferProgress from "../TransferProgress";
 
 interface ShowOptions {
   Import: boolean;
@@ -29,8 +32,11 @@ const DataTableOptions = () => {
   const color = useColor().getIconColor();
   const authRequest = useAuthRequest();
   const ctx = useDataTableContext();
-  const permissionStore = usePermissionStore();
+  const permissionStore = useStore(useXamsStores().permission);
   const [importDataOpened, importDataDisclosure] = useDisclosure(false);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [exportProgress, setExportProgress] = useState<RequestProgress>();
+  const exportAbortController = useRef<AbortController>();
 
   const getPermissions = async () => {
     const permissions = await permissionStore.getPermissions(authRequest, [
@@ -87,6 +93,9 @@ const DataTableOptions = () => {
   };
 
   const downloadExport = async () => {
+    setIsExporting(true);
+    setExportProgress(undefined);
+    exportAbortController.current = new AbortController();
     await authRequest.action(
       `TABLE_ExportData`,
       {
@@ -100,8 +109,13 @@ const DataTableOptions = () => {
           maxResults: 999999,
         } as ReadRequest,
       },
-      `ExportData_${ctx.props.tableName}.xlsx`
+      `ExportData_${ctx.props.tableName}.xlsx`,
+      {
+        signal: exportAbortController.current.signal,
+        onDownloadProgress: setExportProgress,
+      }
     );
+    setIsExporting(false);
   };
 
   useEffect(() => {
@@ -128,6 +142,32 @@ const DataTableOptions = () => {
         opened={importDataOpened}
         close={importDataDisclosure.close}
       />
+      <Modal
+        opened={isExporting}
+        onClose={() => exportAbortController.current?.abort()}
+        title="Export Data"
+        size="md"
+        closeOnEscape={false}
+        closeOnClickOutside={false}
+        withCloseButton={false}
+        centered
+        styles={{
+          overlay: {
+            zIndex: 4000,
+          },
+          inner: {
+            zIndex: 4001,
+          },
+        }}
+      >
+        <TransferProgress
+          label={
+            exportProgress === undefined ? "Exporting..." : "Downloading..."
+          }
+          progress={exportProgress}
+          onCancel={() => exportAbortController.current?.abort()}
+        />
+      </Modal>
       <Menu shadow="md" width={200}>
         <Menu.Target>
           <Button
@@ -0,0 +1,100 @@
+import { ReadOrderBy, ReadRequest } from "../../api/ReadRequest";
+import { MetadataResponse } from "../../api/MetadataResponse";
+import { DataTableField, DataTableProps } from "./DataTableTypes";
+
+export interface DataTableReadOptions {
+  page: number;
+  fields?: DataTableField[] | null; // Used if the DataTable doesn't have fields
+  orderBy: ReadOrderBy[];
+  searchField: string;
+  searchValue: string;
+  active?: boolean | null;
+}
+
+// Builds the read request for a page of the DataTable, shared by the DataTable and prefetchDataTable
+export const getDataTableReadRequest = (
+  props: DataTableProps,
+  metadata: MetadataResponse | undefined,
+  options: DataTableReadOptions
+): ReadRequest => {
+  const fields = (props.fields?.filter(
+    (f) => typeof f === "string" && !f.includes(".") // Exclude joined fields
+  ) ??
+    options.fields?.filter(
+      (f) => typeof f === "string" && !f.includes(".") // Exclude joined fields
+    ) ??
+    metadata?.fields.map((f) => f.name).slice(0, 7)) as string[];
+
+  // For every field that ends with Id, check the metadata to see if it is of type "Lookup"
+  // If it is, add the corresponding field to the fields array
+  let lookupFields: string[] = [];
+  fields?.forEach((f) => {
+    if (f.endsWith("Id")) {
+      const metadataField = metadata?.fields.find((x) => x.name === f);
+      if (
+        metadataField?.type === "Lookup" &&
+        fields.find((x) => x === metadataField.lookupName) === undefined
+      ) {
+        lookupFields.push(metadataField.lookupName);
+      }
+    }
+  });
+  fields?.push(...lookupFields);
+
+  // Add any additional fields to be queried
+  if (props.additionalFields != null) {
+    for (let f of props.additionalFields) {
+      if (fields.find((x) => x === f) === undefined) {
+        fields.push(f);
+      }
+    }
+  }
+
+  // Always make sure the Id field is included
+  if (fields?.find((f) => f === props.tableName + "Id") === undefined) {
+    fields?.push(props.tableName + "Id");
+  }
+
+  // If deactivate instead of delete is enabled, add the IsActive field to the fields
+  if (props.deleteBehavior === "Deactivate") {
+    if (fields.find((f) => f === "IsActive") === undefined) {
+      fields.push("IsActive");
+    }
+  }
+
+  return {
+    tableName: props.tableName as string,
+    page: options.page,
+    fields: fields,
+    maxResults: props.maxResults ?? 10,
+    except: props.except,
+    orderBy: options.orderBy,
+    filters: [
+      {
+        field: options.searchField,
+        value: options.searchValue,
+      },
+      ...(props.showActiveSwitch === true
+        ? [
+            {
+              field: "IsActive",
+              operator: "==",
+              value:
+                options.active != null ? options.active.toString() : "true",
+            },
+          ]
+        : []),
+      // If there are filters passed in, add them to the request
+      ...(props.filters !== undefined
+        ? props.filters.map((f) => {
+            return {
+              field: f.field,
+              operator: f.operator,
+              value: f.value,
+            };
+          })
+        : []),
+    ],
+    joins: props.joins !== undefined ? props.joins : [],
+  } as ReadRequest;
+};
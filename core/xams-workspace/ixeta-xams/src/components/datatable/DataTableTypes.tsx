@@ -3,6 +3,7 @@ import {
   ReadFilter,
   ReadJoin,
   ReadOrderBy,
+  ReadRequest,
 } from "../../api/ReadRequest";
 import { useFormBuilderType } from "../../hooks/useFormBuilder";
 import {
@@ -18,6 +19,8 @@ import {
 import { ReadResponse } from "../../api/ReadResponse";
 import { MetadataField, MetadataResponse } from "../../api/MetadataResponse";
 import { ApiResponse } from "../../api/ApiResponse";
+import { AliasedFieldName, FieldName } from "../../utils/FieldName";
+import { TablePermissions } from "../../stores/usePermissionStore";
 
 export type SetDataFunction = (records: any[]) => any[];
 
@@ -26,16 +29,19 @@ export interface DataTableRef {
   openForm: (recordData: any | undefined) => void;
   dataTableId: string;
   getRecords: () => any[];
+  getReadRequest: () => ReadRequest; // The read of the current page, ie: for matchesRead
   setRecords: (previousData: SetDataFunction) => void;
   showLoading: () => void;
   sort(field: string): void;
 }
 
-export type DataTableField = string | DataTableCustomField;
+export type DataTableField<T = any> =
+  | AliasedFieldName<T>
+  | DataTableCustomField<T>;
 
-export type DataTableCustomField = {
+export type DataTableCustomField<T = any> = {
   header: string | ((refHandle: DataTableRef) => React.ReactNode);
-  body: (record: any, refHandle: DataTableRef) => React.ReactNode;
+  body: (record: T, refHandle: DataTableRef) => React.ReactNode;
 };
 
 type selectable = "single" | "multiple";
@@ -56,15 +62,16 @@ export interface SelectedRow {
   row: any;
 }
 
-export type DataTableProps = {
+// T is the entity type of the table, field names are checked against it when provided
+export type DataTableProps<T = any> = {
   title?: string;
   disabledMessage?: string;
   confirmDelete?: boolean;
 
   tableName: string;
   maxResults?: number;
-  fields?: DataTableField[];
-  additionalFields?: string[]; // Additional fields to query
+  fields?: DataTableField<T>[];
+  additionalFields?: AliasedFieldName<T>[]; // Additional fields to query
   orderBy?: ReadOrderBy[]; // Default order by
   filters?: ReadFilter[]; // Default filters to apply
   joins?: ReadJoin[];
@@ -85,8 +92,8 @@ export type DataTableProps = {
   pagination?: boolean;
 
   formTitle?: string;
-  formFields?: string[]; // What fields to show in the form
-  formFieldDefaults?: FieldValue[]; // Default values for the form even if hidden
+  formFields?: FieldName<T>[]; // What fields to show in the form
+  formFieldDefaults?: FieldValue<T>[]; // Default values for the form even if hidden
   formLookupExclusions?: LookupExclusions[]; // What lookup values to exclude from the form
   formLookupQueries?: LookupQuery[];
   formCloseOnCreate?: boolean; // Close the form on create
@@ -101,11 +108,11 @@ export type DataTableProps = {
   formOnPostSave?: (operation: "CREATE" | "UPDATE", record: any) => void;
   refreshInterval?: number; // How often to refresh the data in milliseconds
   customForm?: (
-    formbuilder: useFormBuilderType,
+    formbuilder: useFormBuilderType<T>,
     disclosure: FormDisclosure
   ) => React.ReactNode | React.ReactElement | JSX.Element;
-  appendCustomForm?: (formbuilder: useFormBuilderType) => React.ReactNode;
-  formAppendButton?: (formbuilder: useFormBuilderType) => React.ReactNode;
+  appendCustomForm?: (formbuilder: useFormBuilderType<T>) => React.ReactNode;
+  formAppendButton?: (formbuilder: useFormBuilderType<T>) => React.ReactNode;
   customCreateButton?: (
     openForm: () => void
   ) => React.ReactNode | React.ReactElement | JSX.Element;
@@ -121,8 +128,19 @@ export type DataTableProps = {
   canImport?: boolean;
   canExport?: boolean;
   tableStyle?: TableStyle;
+  initialState?: DataTableInitialState | null; // From prefetchDataTable, the first render shows this data instead of loading
 };
 
+// The initial load of a DataTable run on the server, serializable so it can be returned from getServerSideProps
+export interface DataTableInitialState {
+  tableName: string;
+  metadata: MetadataResponse;
+  joinMetadata: MetadataResponse[];
+  permissions: TablePermissions;
+  data: ReadResponse<any>;
+  activeSwitch: string | null;
+}
+
 export const getDataOptions = {
   page: 1,
   fields: null,
@@ -142,6 +160,8 @@ export interface GetDataOptions {
   setData: boolean | null;
   active?: boolean | null;
   showLoading?: boolean;
+  abortable?: boolean; // If false, this request won't be aborted by a newer one
+  cache?: boolean | "reload"; // Defaults to using the query cache
   metadata?: MetadataResponse;
   joinMetadata?: MetadataResponse[];
 }
@@ -53,6 +53,10 @@ const SearchBox = () => {
       active: ctx.state.activeSwitch === "Active",
       orderBy: ctx.state.data.orderBy,
     });
+    // A newer search superseded this one
+    if (resp.aborted === true) {
+      return;
+    }
     ctx.dispatch({
       type: "SEARCH_VALUE_CHANGE",
       payload: {
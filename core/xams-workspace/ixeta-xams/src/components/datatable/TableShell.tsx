@@ -112,7 +112,10 @@ const TableShell = (props: TableShellProps) => {
       searchValue: ctx.state.searchValue as string,
       orderBy: ctx.state.data.orderBy,
     });
-
+    // A newer read superseded this one
+    if (resp.aborted === true) {
+      return;
+    }
     ctx.dispatch({
       type: "ACTIVE_SWITCH_CHANGE",
       payload: {
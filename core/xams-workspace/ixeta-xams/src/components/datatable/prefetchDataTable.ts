@@ -0,0 +1,71 @@
+import { MetadataResponse } from "../../api/MetadataResponse";
+import type { XamsClient } from "../../api/XamsClient";
+import { API_DATA_PERMISSIONS } from "../../apiurls";
+import {
+  getTablePermissionNames,
+  toTablePermissions,
+} from "../../stores/usePermissionStore";
+import { getDataTableReadRequest } from "./DataTableReadRequest";
+import { DataTableInitialState, DataTableProps } from "./DataTableTypes";
+
+// Runs the DataTable's initial load on the server, ie: in getServerSideProps or a server component,
+// pass the result to the DataTable's initialState prop.
+// Returns null if the first page can't be shown, the DataTable then loads on the client as usual
+export const prefetchDataTable = async (
+  client: XamsClient,
+  props: DataTableProps
+): Promise<DataTableInitialState | null> => {
+  if (props.disabledMessage) {
+    return null;
+  }
+
+  const [permissionsResp, metadata, ...joinMetas] = await Promise.all([
+    client.execute<string[]>({
+      url: API_DATA_PERMISSIONS,
+      method: "POST",
+      body: {
+        method: "has_permissions",
+        parameters: {
+          permissionNames: getTablePermissionNames(props.tableName),
+        },
+      },
+    }),
+    client.metadata(props.tableName),
+    ...(props.joins ?? []).map((join) => client.metadata(join.toTable)),
+  ]);
+  if (metadata == null || !permissionsResp.succeeded) {
+    return null;
+  }
+  const permissions = toTablePermissions(
+    props.tableName,
+    permissionsResp.data ?? []
+  );
+  if (permissions.read === "NONE") {
+    return null;
+  }
+
+  const dataResp = await client.read<any>(
+    getDataTableReadRequest(props, metadata, {
+      page: 1,
+      fields: props.fields ?? metadata.fields.map((f) => f.name).slice(0, 7),
+      orderBy: props.orderBy ?? [],
+      searchField: "",
+      searchValue: "",
+      active: props.showActiveSwitch === true ? true : null,
+    })
+  );
+  if (!dataResp.succeeded) {
+    return null;
+  }
+
+  return {
+    tableName: props.tableName,
+    metadata: metadata,
+    joinMetadata: joinMetas.filter((m): m is MetadataResponse => m != null),
+    permissions: permissions,
+    data: dataResp.data,
+    activeSwitch: props.showActiveSwitch === true ? "Active" : null,
+  };
+};
+
+export default prefetchDataTable;
@@ -1,7 +1,8 @@
 import { Button, Loader, Modal } from "@mantine/core";
 import { useDisclosure } from "@mantine/hooks";
 import React, { useMemo, useState } from "react";
-import useAuthStore from "../stores/useAuthStore";
+import { useStore } from "zustand";
+import { useXamsStores } from "./AuthContext";
 import dayjs from "dayjs";
 import localizedFormat from "dayjs/plugin/localizedFormat";
 
@@ -45,7 +46,7 @@ export const AppContextProvider = (props: AppContextProviderProps) => {
   const [confirmCancel, setConfirmCancel] = useState<() => void>(
     () => () => {}
   );
-  const authStore = useAuthStore();
+  const authStore = useStore(useXamsStores().auth);
 
   if (!initialized) {
     dayjs.extend(localizedFormat);
@@ -1,16 +1,123 @@
-import React, { useMemo } from "react";
+import React, { useContext, useEffect, useMemo, useRef } from "react";
+import { StoreApi } from "zustand";
+import {
+  RetryOptions,
+  TokenRefresher,
+  XamsMiddleware,
+  XamsClient,
+  createTokenRefresher,
+  runMiddleware,
+} from "../api/XamsClient";
+import {
+  BatchOptions,
+  RequestBatcher,
+  createRequestBatcher,
+} from "../api/RequestBatcher";
+import {
+  ChangeFeed,
+  ChangeFeedOptions,
+  createChangeFeed,
+} from "../api/ChangeFeed";
+import useAuthStore, {
+  AuthStore,
+  createAuthStore,
+} from "../stores/useAuthStore";
+import useLookupStore, {
+  createLookupStore,
+  useLookupStoreDefaultsState,
+} from "../stores/useLookupStore";
+import usePermissionStore, {
+  createPermissionStore,
+  usePermissionStoreState,
+} from "../stores/usePermissionStore";
+import useQueryCacheStore, {
+  QueryCacheState,
+  createQueryCacheStore,
+} from "../stores/useQueryCacheStore";
+import useMetadataStore, {
+  MetadataState,
+  createMetadataStore,
+} from "../stores/useMetadataStore";
+import useOfflineStore, {
+  OfflineState,
+  createOfflineStore,
+} from "../stores/useOfflineStore";
+import OfflineSync from "../components/OfflineSync";
+
+// The stores of an AuthContextProvider, tokens and cached data are never shared between them
+export interface XamsStores {
+  auth: StoreApi<AuthStore>;
+  lookup: StoreApi<useLookupStoreDefaultsState>;
+  permission: StoreApi<usePermissionStoreState>;
+  queryCache: StoreApi<QueryCacheState>;
+  metadata: StoreApi<MetadataState>;
+  offline: StoreApi<OfflineState>;
+}
+
+// Cached reads and metadata were read as the previous user, they're cleared when the user changes
+const bindXamsStores = (stores: XamsStores) => {
+  stores.auth.subscribe((state, prevState) => {
+    if (state.userId !== prevState.userId) {
+      stores.queryCache.getState().invalidate();
+      stores.metadata.getState().invalidateMetadata();
+    }
+  });
+  return stores;
+};
+
+// Used outside of an AuthContextProvider and by the outermost one, so useAuthStore.getState() sets its token
+export const defaultStores: XamsStores = bindXamsStores({
+  auth: useAuthStore,
+  lookup: useLookupStore,
+  permission: usePermissionStore,
+  queryCache: useQueryCacheStore,
+  metadata: useMetadataStore,
+  offline: useOfflineStore,
+});
+
+export const createXamsStores = (apiUrl: string): XamsStores => {
+  const auth = createAuthStore();
+  const queryCache = createQueryCacheStore();
+  return bindXamsStores({
+    auth: auth,
+    lookup: createLookupStore(),
+    permission: createPermissionStore(auth, queryCache),
+    queryCache: queryCache,
+    metadata: createMetadataStore(),
+    offline: createOfflineStore(`xams-offline:${apiUrl}`),
+  });
+};
 
 export interface AuthContextProviderProps {
   onUnauthorized?: () => void;
+  refreshToken?: TokenRefresher; // Return the new access token, the user is only signed out if this fails
   apiUrl: string;
   headers?: { [key: string]: string };
+  timeoutMs?: number; // Default timeout for every request
+  retry?: RetryOptions; // Default retry policy for reads, metadata and permission checks
+  middleware?: XamsMiddleware[]; // Runs in order on every request, ie: correlation ids, signing, logging
+  offline?: boolean; // Queue mutations made while offline and replay them when the connection returns
+  batchRequests?: boolean | BatchOptions; // Send reads and permission checks made in the same tick as one request
+  liveChanges?: boolean | ChangeFeedOptions; // Stream record changes from the server to refresh DataTables and warn open forms
+  // Use stores of its own instead of the global ones, defaults to true when nested in a provider with a different apiUrl
+  isolated?: boolean;
+  accessToken?: string; // Sets the token of this provider's auth store, required for isolated providers
+  userId?: string;
   children?: any;
 }
 
 export type AuthContextShape = {
   onUnauthorized?: () => void;
+  refreshToken?: TokenRefresher;
   apiUrl: string;
   headers?: { [key: string]: string };
+  timeoutMs?: number;
+  retry?: RetryOptions;
+  middleware?: XamsMiddleware[];
+  offline?: boolean;
+  batcher?: RequestBatcher;
+  changeFeed?: ChangeFeed;
+  stores: XamsStores;
 };
 
 export const AuthContext = React.createContext<AuthContextShape | null>(null);
@@ -25,7 +132,52 @@ export const useAuthContext = () => {
   return ctx;
 };
 
+// The stores of the nearest AuthContextProvider
+export const useXamsStores = () =>
+  useContext(AuthContext)?.stores ?? defaultStores;
+
 const AuthContextProvider = (props: AuthContextProviderProps) => {
+  const parentContext = useContext(AuthContext);
+  const isIsolated =
+    props.isolated ??
+    (parentContext !== null && parentContext.apiUrl !== props.apiUrl);
+  const stores = useMemo(() => {
+    if (!isIsolated) {
+      return parentContext?.stores ?? defaultStores;
+    }
+    const scopedStores = createXamsStores(props.apiUrl);
+    // Set before the children's first requests
+    scopedStores.auth.setState({
+      accessToken: props.accessToken,
+      userId: props.userId,
+    });
+    return scopedStores;
+  }, [
+    isIsolated,
+    isIsolated ? props.apiUrl : undefined,
+    parentContext?.stores,
+  ]);
+  const storesRef = useRef(stores);
+  storesRef.current = stores;
+
+  useEffect(() => {
+    if (
+      props.accessToken !== undefined &&
+      stores.auth.getState().accessToken !== props.accessToken
+    ) {
+      stores.auth.getState().setAccessToken(props.accessToken);
+    }
+  }, [stores, props.accessToken]);
+
+  useEffect(() => {
+    if (
+      props.userId !== undefined &&
+      stores.auth.getState().userId !== props.userId
+    ) {
+      stores.auth.getState().setUserId(props.userId);
+    }
+  }, [stores, props.userId]);
+
   // Use this for memoization, otherwise the context will be recreated on every render
   let headersString = "";
   if (props.headers != null) {
@@ -34,16 +186,138 @@ const AuthContextProvider = (props: AuthContextProviderProps) => {
     }
   }
 
+  // Shared by every request in this provider so concurrent 401's only trigger one refresh
+  const refreshTokenRef = useRef(props.refreshToken);
+  refreshTokenRef.current = props.refreshToken;
+  const refreshToken = useMemo(
+    () =>
+      createTokenRefresher(async () => {
+        const accessToken = await refreshTokenRef.current?.();
+        if (accessToken != null && accessToken !== "") {
+          storesRef.current.auth.getState().setAccessToken(accessToken);
+        }
+        return accessToken;
+      }),
+    []
+  );
+  const hasRefreshToken = props.refreshToken !== undefined;
+
+  // Always run the latest middleware without recreating the context
+  const middlewareRef = useRef(props.middleware);
+  middlewareRef.current = props.middleware;
+  const middleware = useMemo<XamsMiddleware[]>(
+    () => [
+      {
+        handle: (params, next) =>
+          runMiddleware(middlewareRef.current ?? [], params, next),
+        onFetchResponse: async (response, params) => {
+          for (const middleware of middlewareRef.current ?? []) {
+            response =
+              (await middleware.onFetchResponse?.(response, params)) ??
+              response;
+          }
+          return response;
+        },
+      },
+    ],
+    []
+  );
+  const hasMiddleware = props.middleware !== undefined;
+
+  // Shared by every request in this provider so requests from different components are batched together
+  const isBatching =
+    props.batchRequests !== undefined && props.batchRequests !== false;
+  const batchMaxSize =
+    typeof props.batchRequests === "object"
+      ? props.batchRequests.maxSize
+      : undefined;
+  const batcher = useMemo(
+    () =>
+      isBatching ? createRequestBatcher({ maxSize: batchMaxSize }) : undefined,
+    [isBatching, batchMaxSize]
+  );
+
+  // Shared by every component in this provider so there's only one connection to the server
+  const isLive = props.liveChanges !== undefined && props.liveChanges !== false;
+  const reconnectDelayMs =
+    typeof props.liveChanges === "object"
+      ? props.liveChanges.reconnectDelayMs
+      : undefined;
+  const maxReconnectDelayMs =
+    typeof props.liveChanges === "object"
+      ? props.liveChanges.maxReconnectDelayMs
+      : undefined;
+  const liveClientRef = useRef({
+    headers: props.headers,
+    onUnauthorized: props.onUnauthorized,
+  });
+  liveClientRef.current = {
+    headers: props.headers,
+    onUnauthorized: props.onUnauthorized,
+  };
+  const changeFeed = useMemo(
+    () =>
+      isLive
+        ? createChangeFeed(
+            (options) =>
+              new XamsClient({
+                apiUrl: props.apiUrl,
+                headers: liveClientRef.current.headers,
+                onUnauthorized: liveClientRef.current.onUnauthorized,
+                refreshToken: hasRefreshToken ? refreshToken : undefined,
+                getAccessToken: () => stores.auth.getState().accessToken,
+                getUserId: () => stores.auth.getState().userId,
+              }).changes(options),
+            {
+              reconnectDelayMs: reconnectDelayMs,
+              maxReconnectDelayMs: maxReconnectDelayMs,
+            }
+          )
+        : undefined,
+    [
+      isLive,
+      props.apiUrl,
+      hasRefreshToken,
+      reconnectDelayMs,
+      maxReconnectDelayMs,
+      stores,
+    ]
+  );
+
   const value = useMemo(
     () => ({
       onUnauthorized: props.onUnauthorized,
+      refreshToken: hasRefreshToken ? refreshToken : undefined,
       apiUrl: props.apiUrl,
       headers: props.headers,
+      timeoutMs: props.timeoutMs,
+      retry: props.retry,
+      middleware: hasMiddleware ? middleware : undefined,
+      offline: props.offline,
+      batcher: batcher,
+      changeFeed: changeFeed,
+      stores: stores,
     }),
-    [props.apiUrl, headersString]
+    [
+      props.apiUrl,
+      headersString,
+      hasRefreshToken,
+      props.timeoutMs,
+      props.retry?.retries,
+      props.retry?.baseDelayMs,
+      props.retry?.maxDelayMs,
+      hasMiddleware,
+      props.offline,
+      batcher,
+      changeFeed,
+      stores,
+    ]
   );
   return (
-    <AuthContext.Provider value={value}>{props.children}</AuthContext.Provider>
+    <AuthContext.Provider value={value}>
+      {props.offline === true && <OfflineSync />}
+      {props.children}
+    </AuthContext.Provider>
   );
 };
 
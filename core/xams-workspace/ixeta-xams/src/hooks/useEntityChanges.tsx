@@ -0,0 +1,32 @@
+import { useContext, useEffect, useRef } from "react";
+import { AuthContext } from "../contexts/AuthContext";
+import { ChangeListener } from "../api/ChangeFeed";
+
+// Calls the listener when records of the table, or only the record with the id, change on the server
+// Returns false if live changes aren't enabled on the AuthContextProvider
+const useEntityChanges = (
+  tableName: string | undefined | null,
+  listener: ChangeListener,
+  id?: string | null
+) => {
+  const authContext = useContext(AuthContext);
+  const changeFeed = authContext?.changeFeed;
+  // Always call the latest listener without resubscribing
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    if (changeFeed === undefined || tableName == null || tableName === "") {
+      return;
+    }
+    return changeFeed.subscribe(
+      tableName,
+      (change) => listenerRef.current(change),
+      id ?? undefined
+    );
+  }, [changeFeed, tableName, id]);
+
+  return changeFeed !== undefined;
+};
+
+export default useEntityChanges;
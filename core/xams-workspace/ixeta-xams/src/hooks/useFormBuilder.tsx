@@ -1,8 +1,14 @@
 import { MetadataResponse } from "../api/MetadataResponse";
 import useAuthRequest from "../hooks/useAuthRequest";
-import { useEffect, useMemo, useReducer, useRef, useState } from "react";
-import useLookupStore from "../stores/useLookupStore";
-import { usePermissionStore } from "../stores/usePermissionStore";
+import {
+  useContext,
+  useEffect,
+  useMemo,
+  useReducer,
+  useRef,
+  useState,
+} from "react";
+import { AppContext } from "../contexts/AppContext";
 import {
   FieldValue,
   LookupExclusions,
@@ -14,6 +20,10 @@ import {
 import { DataTableRef } from "../components/datatable/DataTableTypes";
 import { API_DATA_CREATE, API_DATA_UPDATE } from "../apiurls";
 import useGuid from "./useGuid";
+import { FieldName } from "../utils/FieldName";
+import { useStore } from "zustand";
+import { useXamsStores } from "../contexts/AuthContext";
+import useEntityChanges from "./useEntityChanges";
 
 export type SaveEventResponse = {
   continue: boolean;
@@ -25,11 +35,11 @@ type FBEvent = {
   callback: Function | ((...arg: any[]) => Promise<boolean>);
 };
 
-interface useFormBuilderProps {
+interface useFormBuilderProps<T = any> {
   tableName: string;
   id?: string | null;
   metadata?: MetadataResponse;
-  defaults?: FieldValue[];
+  defaults?: FieldValue<T>[];
   snapshot?: any; // This is only set when a record is being updated and is the original data (state.data is the current data being edited)
   lookupExclusions?: LookupExclusions[];
   lookupQueries?: LookupQuery[];
@@ -44,6 +54,12 @@ interface useFormBuilderProps {
   forceShowLoading?: boolean; // If true, loading will be displayed until setShowLoading(false) is called
 }
 
+// The record being edited was changed on the server after it was loaded
+export type ServerChange = {
+  operation: "UPDATE" | "DELETE";
+  record?: any; // The record as it is on the server, only set for updates
+};
+
 type OnLoadOptions = {
   id?: string | null;
   refresh: boolean;
@@ -59,11 +75,15 @@ export type PostSaveEvent = (
   data: any
 ) => void;
 
-const useFormBuilder = <T,>(props: useFormBuilderProps) => {
+const isSameValue = (a: any, b: any) => String(a ?? "") === String(b ?? "");
+
+const useFormBuilder = <T,>(props: useFormBuilderProps<T>) => {
   const authRequest = useAuthRequest();
-  const permissionStore = usePermissionStore();
+  const appContext = useContext(AppContext);
+  const stores = useXamsStores();
+  const permissionStore = useStore(stores.permission);
   const guid = useGuid();
-  const lookupStore = useLookupStore();
+  const lookupStore = useStore(stores.lookup);
   const firstInputRef = useRef<HTMLInputElement>(null);
   const [state, dispatch] = useReducer(
     formbuilderReducer,
@@ -73,11 +93,60 @@ const useFormBuilder = <T,>(props: useFormBuilderProps) => {
   let childDataTables: DataTableRef[] = [];
   let eventListeners: FBEvent[] = [];
   let requiredFields: string[] = [];
+  const recordId = (state.snapshot as any)?.[`${props.tableName}Id`];
+  const isPendingSync = useStore(
+    stores.offline,
+    (offlineState) =>
+      recordId != null && offlineState.isPending(props.tableName, recordId)
+  );
+  const [serverChange, setServerChange] = useState<ServerChange | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  useEntityChanges(
+    props.tableName,
+    async (change) => {
+      if (change.operation === "DELETE") {
+        setServerChange({ operation: "DELETE" });
+        return;
+      }
+      const resp = await authRequest.read<any>(
+        {
+          tableName: props.tableName,
+          fields: ["*"],
+          maxResults: 1,
+          page: 1,
+          id: change.id,
+        },
+        { hideFailureMessage: true, cache: false }
+      );
+      const record = resp.succeeded ? resp.data.results[0] : undefined;
+      const current = stateRef.current;
+      if (record == null || current.metadata == null) {
+        return;
+      }
+      // Values that match the loaded record or the edits, ie: this form's own save, aren't a change
+      const isChanged = current.metadata.fields.some(
+        (f) =>
+          !isSameValue(record[f.name], (current.snapshot as any)?.[f.name]) &&
+          !isSameValue(record[f.name], (current.data as any)?.[f.name])
+      );
+      if (isChanged) {
+        setServerChange({ operation: "UPDATE", record: record });
+      }
+    },
+    recordId
+  );
+
+  useEffect(() => {
+    setServerChange(null);
+  }, [recordId]);
 
   const onLoad = async (options: OnLoadOptions) => {
     if (props.tableName == null || props.tableName === "") {
       return;
     }
+    setServerChange(null);
 
     if (!options.refresh) {
       dispatch({
@@ -96,7 +165,13 @@ const useFormBuilder = <T,>(props: useFormBuilderProps) => {
 
     let metadata = props.metadata;
     if (metadata == null) {
-      metadata = await authRequest.metadata(props.tableName);
+      metadata = await stores.metadata
+        .getState()
+        .getMetadata(authRequest, props.tableName);
+    }
+    if (metadata == null) {
+      console.error(`Failed to load metadata for ${props.tableName}`);
+      return;
     }
 
     let snapshot = props.snapshot;
@@ -306,7 +381,7 @@ const useFormBuilder = <T,>(props: useFormBuilderProps) => {
   };
 
   const setField = (
-    field: string,
+    field: FieldName<T>,
     value: string | boolean | null | undefined | number
   ) => {
     dispatch({
@@ -318,7 +393,7 @@ const useFormBuilder = <T,>(props: useFormBuilderProps) => {
     });
   };
 
-  const isDirty = (field?: string) => {
+  const isDirty = (field?: FieldName<T>) => {
     if (field == null) {
       return state.dirtyFields.length > 0;
     }
@@ -340,14 +415,14 @@ const useFormBuilder = <T,>(props: useFormBuilderProps) => {
     childDataTables.push(dataTable);
   };
 
-  const addRequiredField = (fieldName: string) => {
+  const addRequiredField = (fieldName: FieldName<T>) => {
     // Add if it doesn't already exist
     if (!requiredFields.includes(fieldName)) {
       requiredFields.push(fieldName);
     }
   };
 
-  const removeRequiredField = (fieldName: string) => {
+  const removeRequiredField = (fieldName: FieldName<T>) => {
     requiredFields = requiredFields.filter((x) => x !== fieldName);
   };
 
@@ -449,8 +524,25 @@ const useFormBuilder = <T,>(props: useFormBuilderProps) => {
         fields: submissionData,
         parameters: parameters,
       },
+      snapshot: state.snapshot,
+      // Field errors are shown on the fields, only other errors go to the error modal
+      hideFailureMessage: true,
     });
 
+    // Errors for fields that aren't on this form are shown with the message
+    const fieldNames = state.metadata?.fields.map((f) => f.name) ?? [];
+    const fieldErrors =
+      resp.fieldErrors?.filter((e) => fieldNames.includes(e.field)) ?? [];
+    if (
+      resp.succeeded === false &&
+      resp.aborted !== true &&
+      resp.friendlyMessage !== "" &&
+      (fieldErrors.length === 0 ||
+        fieldErrors.length !== resp.fieldErrors?.length)
+    ) {
+      appContext?.showError(resp.friendlyMessage);
+    }
+
     // Handle Post Save events
     if (resp?.succeeded === true) {
       if (props.onPostSave !== undefined) {
@@ -492,6 +584,12 @@ const useFormBuilder = <T,>(props: useFormBuilderProps) => {
     dispatch({
       type: "SUBMIT_COMPLETE",
     });
+    if (fieldErrors.length > 0) {
+      dispatch({
+        type: "SET_VALIDATION_MESSAGES",
+        payload: fieldErrors,
+      });
+    }
     reloadDataTables();
   };
 
@@ -504,6 +602,7 @@ const useFormBuilder = <T,>(props: useFormBuilderProps) => {
         fields: state.data,
         parameters: parameters,
       },
+      snapshot: state.snapshot,
     });
     return resp.data;
   };
@@ -585,7 +684,7 @@ const useFormBuilder = <T,>(props: useFormBuilderProps) => {
     return true;
   };
 
-  const setFieldError = (field: string, message: string) => {
+  const setFieldError = (field: FieldName<T>, message: string) => {
     dispatch({
       type: "SET_VALIDATION_MESSAGE",
       payload: {
@@ -669,6 +768,9 @@ const useFormBuilder = <T,>(props: useFormBuilderProps) => {
     validationMessages: state.validationMessages,
     isLoading: state.isLoading || state.forceIsLoading,
     isSubmitted: state.isSubmitted,
+    isPendingSync: isPendingSync, // The record has offline changes that haven't synced yet
+    serverChange: serverChange, // Only detected when live changes are enabled on the AuthContextProvider
+    dismissServerChange: () => setServerChange(null),
     operation: (props.snapshot != null || state.snapshot != null
       ? "UPDATE"
       : "CREATE") as "UPDATE" | "CREATE",
@@ -0,0 +1,15 @@
+import { useCallback } from "react";
+import { useXamsStores } from "../contexts/AuthContext";
+
+// Invalidates the metadata of the nearest AuthContextProvider, ie: after a schema deployment
+// Invalidates every table if none are provided
+const useInvalidateMetadata = () => {
+  const metadataStore = useXamsStores().metadata;
+  return useCallback(
+    (tableNames?: string[]) =>
+      metadataStore.getState().invalidateMetadata(tableNames),
+    [metadataStore]
+  );
+};
+
+export default useInvalidateMetadata;
@@ -0,0 +1,50 @@
+import { useEffect } from "react";
+import { shallow } from "zustand/shallow";
+import { useStoreWithEqualityFn } from "zustand/traditional";
+import useAuthRequest from "./useAuthRequest";
+import { useXamsStores } from "../contexts/AuthContext";
+
+// Checks the permissions once and re-renders when they change, ie: after the user or their roles change
+// A failed check sets error and is retried after invalidatePermissions
+const usePermissions = (permissionNames: string[]) => {
+  const authRequest = useAuthRequest();
+  const permissionStore = useXamsStores().permission;
+  const getPermissions = useStoreWithEqualityFn(
+    permissionStore,
+    (state) => state.getPermissions
+  );
+  const namesKey = permissionNames.join(",");
+  // undefined until the permission has been checked
+  const results = useStoreWithEqualityFn(
+    permissionStore,
+    (state) =>
+      permissionNames.map(
+        (name) => state.permissions[`${authRequest.apiUrl}|${name}`]
+      ),
+    shallow
+  );
+  const error = useStoreWithEqualityFn(permissionStore, (state) =>
+    permissionNames
+      .map((name) => state.permissionErrors[`${authRequest.apiUrl}|${name}`])
+      .find((e) => e !== undefined)
+  );
+  const isLoading = error === undefined && results.some((r) => r === undefined);
+
+  useEffect(() => {
+    if (isLoading) {
+      getPermissions(authRequest, permissionNames);
+    }
+  }, [namesKey, isLoading, authRequest.apiUrl]);
+
+  const granted = permissionNames.filter((_, i) => results[i] === true);
+
+  return {
+    isLoading: isLoading,
+    error: error,
+    permissions: granted,
+    hasPermission: (permissionName: string) => granted.includes(permissionName),
+  };
+};
+
+export type usePermissionsType = ReturnType<typeof usePermissions>;
+export default usePermissions;
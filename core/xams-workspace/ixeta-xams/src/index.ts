@@ -6,6 +6,33 @@ export { default as AdminDashboard } from "./admin/AdminDashboard";
 export * from "./admin/AdminDashboard";
 export { useAdminDashContext as useAdminDashContext } from "./admin/AdminDashboard";
 export { default as useAuthRequest } from "./hooks/useAuthRequest";
+export { XamsClient } from "./api/XamsClient";
+export type {
+  XamsClientOptions,
+  RequestParams,
+  RequestOptions,
+  RetryOptions,
+  RequestProgress,
+  XamsMiddleware,
+  RequestHandler,
+} from "./api/XamsClient";
+export { createRequestBatcher } from "./api/RequestBatcher";
+export { ReadAllError } from "./api/readAll";
+export type { ReadAllOptions, ReadAllIterator } from "./api/readAll";
+export { createChangeFeed } from "./api/ChangeFeed";
+export type {
+  ChangeFeed,
+  ChangeFeedOptions,
+  ChangeListener,
+  ChangeOperation,
+  EntityChange,
+} from "./api/ChangeFeed";
+export type {
+  BatchOptions,
+  BulkReadRequest,
+  BulkReadResponse,
+  RequestBatcher,
+} from "./api/RequestBatcher";
 export type { ReadFilter as ReadFilter } from "./api/ReadRequest";
 export { default as useFormBuilder } from "./hooks/useFormBuilder";
 export * from "./hooks/useFormBuilder";
@@ -14,20 +41,33 @@ export {
   useAppContext,
 } from "./contexts/AppContext";
 export { default as AuthContextProvider } from "./contexts/AuthContext";
-export { useAuthContext } from "./contexts/AuthContext";
+export {
+  useAuthContext,
+  useXamsStores,
+  createXamsStores,
+} from "./contexts/AuthContext";
+export type { XamsStores } from "./contexts/AuthContext";
 export { useFormContext } from "./contexts/FormContext";
 export { default as DataTable } from "./components/DataTable";
 export { default as DataTableSelectable } from "./components/DataTableSelectable";
 export * from "./components/datatable/DataTableTypes";
+export { prefetchDataTable } from "./components/datatable/prefetchDataTable";
 export { default as DataGrid } from "./components/DataGrid";
 export * from "./components/datagrid/DataGridTypes";
 export { default as FormContainer } from "./components/FormContainer";
 export { default as Field } from "./components/Field";
 export { default as SaveButton } from "./components/SaveButton";
+export { default as ServerChangeAlert } from "./components/ServerChangeAlert";
 export { default as ToggleMode } from "./components/ToggleMode";
 export { default as useAuthStore } from "./stores/useAuthStore";
 export { default as useColor } from "./hooks/useColor";
+export { default as usePermissions } from "./hooks/usePermissions";
+export { default as useInvalidateMetadata } from "./hooks/useInvalidateMetadata";
+export { default as useEntityChanges } from "./hooks/useEntityChanges";
 export * from "./stores/usePermissionStore";
+export * from "./stores/useQueryCacheStore";
+export * from "./stores/useOfflineStore";
+export * from "./stores/useMetadataStore";
 export { getQueryParam } from "./getQueryParam";
 export {
   API_DATA_PERMISSIONS,
@@ -38,9 +78,24 @@ export {
   API_DATA_DELETE,
   API_DATA_FILE,
   API_DATA_METADATA,
+  API_DATA_BULK_READ,
+  API_DATA_CHANGES,
 } from "./apiurls";
+export type { ApiResponse, ApiFieldError } from "./api/ApiResponse";
 export * from "./api/TablesResponse";
 export * from "./api/ReadRequest";
 export * from "./utils/Query";
+export { FilterParseError } from "./utils/FilterParser";
+export * from "./utils/Transaction";
+export type {
+  FieldName,
+  JoinedFieldName,
+  AliasedFieldName,
+} from "./utils/FieldName";
+export * from "./codegen/generateTypes";
+export * from "./mock/MockXamsServer";
+export { evaluateRead, matchesRead } from "./utils/ReadEvaluator";
+export type { EvaluateReadOptions, RecordTables } from "./utils/ReadEvaluator";
 export type { useAuthRequestType as useAuthRequestType } from "./hooks/useAuthRequest";
 export type { useFormBuilderType as useFormBuilderType } from "./hooks/useFormBuilder";
+export type { usePermissionsType as usePermissionsType } from "./hooks/usePermissions";
@@ -0,0 +1,556 @@
+import { v4 as uuidv4 } from "uuid";
+import { ApiResponse } from "../api/ApiResponse";
+import { MetadataResponse } from "../api/MetadataResponse";
+import { ReadRequest } from "../api/ReadRequest";
+import { Request as XamsRequest } from "../api/Request";
+import { BulkRequest } from "../api/BulkRequest";
+import { TablesResponse } from "../api/TablesResponse";
+import { BulkReadRequest, BulkReadResponse } from "../api/RequestBatcher";
+import { EntityChange } from "../api/ChangeFeed";
+import {
+  API_DATA_ACTION,
+  API_DATA_BULK,
+  API_DATA_BULK_READ,
+  API_DATA_CHANGES,
+  API_DATA_CREATE,
+  API_DATA_DELETE,
+  API_DATA_METADATA,
+  API_DATA_PERMISSIONS,
+  API_DATA_READ,
+  API_DATA_UPDATE,
+  API_DATA_UPSERT,
+} from "../apiurls";
+import {
+  RecordTables,
+  getPrimaryKey,
+  getTableMetadata,
+  readRecords,
+  withLookupNames,
+} from "../utils/ReadEvaluator";
+
+export type MockTables = RecordTables;
+
+export type MockAction = (
+  parameters: any,
+  server: MockXamsServer
+) => any | Promise<any>;
+
+export interface MockXamsServerOptions {
+  metadata: MetadataResponse[];
+  data?: MockTables; // Fixture records by table name
+  tables?: TablesResponse[]; // Defaults to every table in the metadata without a tag
+  permissions?: string[]; // Permissions of the current user, every permission is granted if not set
+  actions?: { [name: string]: MockAction };
+  latencyMs?: number; // Delay every response, ie: to show loading states in demos
+}
+
+type Operation = "CREATE" | "UPDATE" | "DELETE";
+
+const NUMBER_TYPES = ["Single", "Int16", "Int32", "Int64", "Double", "Decimal"];
+
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value ?? null));
+
+// A validation error returned in fieldErrors
+class FieldError extends Error {
+  field: string;
+
+  constructor(field: string, message: string) {
+    super(message);
+    this.field = field;
+  }
+}
+
+// Runs a request handler, errors are returned as a failed response like the server
+const toResult = async (
+  handler: () => any
+): Promise<Omit<ApiResponse<any>, "response">> => {
+  try {
+    return {
+      succeeded: true,
+      data: await handler(),
+      friendlyMessage: "",
+      logMessage: "",
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      succeeded: false,
+      data: null,
+      friendlyMessage: message,
+      logMessage: message,
+      fieldErrors:
+        error instanceof FieldError
+          ? [{ field: error.field, message: message }]
+          : undefined,
+    };
+  }
+};
+
+// In-memory stand-in for the Xams api, use server.fetch as a fetch shim or server.handle as an MSW style handler
+export class MockXamsServer {
+  private _options: MockXamsServerOptions;
+  private _tables: MockTables = {};
+  private _changeStreams = new Set<
+    ReadableStreamDefaultController<Uint8Array>
+  >();
+  private _uncommittedChanges: EntityChange[] = [];
+
+  constructor(options: MockXamsServerOptions) {
+    this._options = options;
+    this.reset();
+  }
+
+  // Restores the fixture data
+  reset() {
+    this._tables = copy(this._options.data ?? {});
+    for (const metadata of this._options.metadata) {
+      this._tables[metadata.tableName] ??= [];
+    }
+  }
+
+  getRecords<T = any>(tableName: string): T[] {
+    return copy(this._tables[tableName] ?? []);
+  }
+
+  seed(tableName: string, records: any[]) {
+    this._tables[tableName] = [
+      ...(this._tables[tableName] ?? []),
+      ...copy(records),
+    ];
+  }
+
+  // Replaces the global fetch, returns a function to restore it
+  install() {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = this.fetch as typeof fetch;
+    return () => {
+      globalThis.fetch = originalFetch;
+    };
+  }
+
+  fetch = async (
+    input: RequestInfo | URL,
+    init?: RequestInit
+  ): Promise<Response> => {
+    const url =
+      typeof input === "string"
+        ? input
+        : input instanceof URL
+        ? input.href
+        : input.url;
+    let body = init?.body;
+    if (body === undefined && typeof input === "object" && "text" in input) {
+      body = await input.text();
+    }
+    return this._respond(url, body, init?.signal);
+  };
+
+  // Returns undefined for requests that aren't for the Xams api
+  handle = async (request: Request): Promise<Response | undefined> => {
+    if (this._getRoute(request.url) === undefined) {
+      return undefined;
+    }
+    return this._respond(request.url, await request.text(), request.signal);
+  };
+
+  // Sends the change to the open change streams, ie: to simulate another user editing a record
+  publishChanges(changes: EntityChange[]) {
+    const encoder = new TextEncoder();
+    for (const change of changes) {
+      if (!this._hasPermission(change.tableName, "READ")) {
+        continue;
+      }
+      for (const controller of Array.from(this._changeStreams)) {
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(change)}\n\n`)
+        );
+      }
+    }
+  }
+
+  // Ends the open change streams, ie: to test reconnecting
+  closeChangeStreams() {
+    for (const controller of Array.from(this._changeStreams)) {
+      controller.close();
+    }
+    this._changeStreams.clear();
+  }
+
+  private _openChangeStream(signal?: AbortSignal | null) {
+    let streamController: ReadableStreamDefaultController<Uint8Array>;
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        streamController = controller;
+        this._changeStreams.add(controller);
+        controller.enqueue(new TextEncoder().encode(": connected\n\n"));
+      },
+      cancel: () => {
+        this._changeStreams.delete(streamController);
+      },
+    });
+    signal?.addEventListener("abort", () => {
+      if (this._changeStreams.delete(streamController)) {
+        streamController.error(new DOMException("Aborted", "AbortError"));
+      }
+    });
+    return new Response(stream, {
+      status: 200,
+      headers: { "content-type": "text/event-stream" },
+    });
+  }
+
+  private _getRoute(url: string) {
+    const path = new URL(url, "http://localhost").pathname.toLowerCase();
+    return [
+      API_DATA_READ,
+      API_DATA_CREATE,
+      API_DATA_UPDATE,
+      API_DATA_DELETE,
+      API_DATA_UPSERT,
+      API_DATA_BULK,
+      API_DATA_BULK_READ,
+      API_DATA_METADATA,
+      API_DATA_PERMISSIONS,
+      API_DATA_ACTION,
+      API_DATA_CHANGES,
+    ].find((route) => path.endsWith(route.toLowerCase()));
+  }
+
+  private async _respond(
+    url: string,
+    body: any,
+    signal?: AbortSignal | null
+  ): Promise<Response> {
+    if (this._options.latencyMs !== undefined) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, this._options.latencyMs)
+      );
+    }
+    const route = this._getRoute(url);
+    if (route === undefined) {
+      return new Response("Not Found", { status: 404 });
+    }
+    if (route === API_DATA_CHANGES) {
+      return this._openChangeStream(signal);
+    }
+    this._uncommittedChanges = [];
+    const json = await toResult(() =>
+      this._route(route, typeof body === "string" ? JSON.parse(body) : {})
+    );
+    // Same as the server, changes are only sent once the request succeeds
+    if (json.succeeded) {
+      this.publishChanges(this._uncommittedChanges);
+    }
+    this._uncommittedChanges = [];
+    return new Response(JSON.stringify(json), {
+      status: json.succeeded ? 200 : 400,
+      headers: { "content-type": "application/json" },
+    });
+  }
+
+  private async _route(route: string, input: any) {
+    switch (route) {
+      case API_DATA_READ:
+        return this.read(input);
+      case API_DATA_CREATE:
+        return this._mutate(input, (r) => this._create(r));
+      case API_DATA_UPDATE:
+        return this._mutate(input, (r) => this._update(r));
+      case API_DATA_DELETE:
+        return this._mutate(input, (r) => this._delete(r));
+      case API_DATA_UPSERT:
+        return this._mutate(input, (r) => this._upsert(r));
+      case API_DATA_BULK:
+        return this._bulk(input);
+      case API_DATA_BULK_READ:
+        return this._bulkRead(input);
+      case API_DATA_METADATA:
+        return this._metadata(input);
+      case API_DATA_PERMISSIONS:
+        return this._permissions(input);
+      case API_DATA_ACTION:
+        return this._action(input);
+    }
+  }
+
+  private async _action(input: any) {
+    const action = this._options.actions?.[input.name];
+    if (action === undefined) {
+      throw new Error(`Action ${input.name} not found.`);
+    }
+    return await action(input.parameters, this);
+  }
+
+  private _hasPermission(tableName: string, operation: string) {
+    const permissions = this._options.permissions;
+    return (
+      permissions === undefined ||
+      permissions.some((p) => p.startsWith(`TABLE_${tableName}_${operation}_`))
+    );
+  }
+
+  private _checkPermission(tableName: string, operation: string) {
+    if (!this._hasPermission(tableName, operation)) {
+      throw new Error(
+        `Missing ${operation.toLowerCase()} permissions for ${tableName}.`
+      );
+    }
+  }
+
+  private _uiInfo = (tableName: string) => ({
+    canDelete: this._hasPermission(tableName, "DELETE"),
+    canUpdate: this._hasPermission(tableName, "UPDATE"),
+  });
+
+  read<T = any>(request: ReadRequest) {
+    this._checkPermission(request.tableName, "READ");
+    return copy(
+      readRecords<T>(
+        {
+          metadata: this._options.metadata,
+          tables: this._tables,
+          uiInfo: this._uiInfo,
+        },
+        request
+      )
+    );
+  }
+
+  // Same as the server, the saved record is read back with every field
+  private _readRecord(tableName: string, record: any) {
+    return {
+      ...withLookupNames(
+        { metadata: this._options.metadata, tables: this._tables },
+        tableName,
+        record
+      ),
+      _ui_info_: this._uiInfo(tableName),
+    };
+  }
+
+  // Applies a single or bulk (entities) request, nothing is saved if any entity fails
+  private _mutate(input: XamsRequest, apply: (request: XamsRequest) => any) {
+    const tables = copy(this._tables);
+    try {
+      if (input.entities !== undefined) {
+        return input.entities.map((entity: any) =>
+          apply(entity.tableName !== undefined ? entity : { fields: entity })
+        );
+      }
+      return apply(input);
+    } catch (error) {
+      this._tables = tables;
+      throw error;
+    }
+  }
+
+  private _bulk(input: BulkRequest) {
+    const tables = copy(this._tables);
+    // Same as the server, upserts are resolved into creates and updates before anything is saved,
+    // then creates, updates and deletes run in that order
+    const creates: XamsRequest[] = [];
+    const updates: XamsRequest[] = [];
+    for (const request of input.upserts ?? []) {
+      (this._exists(request) ? updates : creates).push(request);
+    }
+    creates.push(...(input.creates ?? []));
+    updates.push(...(input.updates ?? []));
+    // And the created and updated records are returned
+    const results: any[] = [];
+    try {
+      for (const request of creates) {
+        results.push(this._create(request));
+      }
+      for (const request of updates) {
+        results.push(this._update(request));
+      }
+      for (const request of input.deletes ?? []) {
+        this._delete(request);
+      }
+    } catch (error) {
+      this._tables = tables;
+      throw error;
+    }
+    return results;
+  }
+
+  private async _bulkRead(input: BulkReadRequest): Promise<BulkReadResponse> {
+    const reads = [];
+    for (const request of input.reads ?? []) {
+      reads.push(await toResult(() => this.read(request)));
+    }
+    const permissions = [];
+    for (const request of input.permissions ?? []) {
+      permissions.push(await toResult(() => this._permissions(request)));
+    }
+    return { reads, permissions };
+  }
+
+  private _getTarget(request: XamsRequest, operation: Operation) {
+    if (request.tableName == null || request.fields == null) {
+      throw new Error("tableName and fields are required.");
+    }
+    const metadata = getTableMetadata(
+      this._options.metadata,
+      request.tableName
+    );
+    this._checkPermission(request.tableName, operation);
+    const primaryKey = getPrimaryKey(metadata);
+    const records = this._tables[request.tableName];
+    const index = records.findIndex(
+      (r) =>
+        request.fields[primaryKey] != null &&
+        r[primaryKey] === request.fields[primaryKey]
+    );
+    return { metadata, primaryKey, records, index };
+  }
+
+  // Only fields in the metadata are saved, lookup names and _ui_info_ are dropped
+  private _validate(metadata: MetadataResponse, record: any) {
+    const result: any = {};
+    for (const field of metadata.fields) {
+      let value = record[field.name];
+      if (value === undefined || value === "") {
+        value =
+          NUMBER_TYPES.includes(field.type) && !field.isNullable ? 0 : null;
+        if (field.type === "Boolean" && !field.isNullable) {
+          value = false;
+        }
+      }
+      if (field.isRequired && value == null) {
+        throw new FieldError(field.name, `${field.displayName} is required.`);
+      }
+      result[field.name] = value;
+    }
+    return result;
+  }
+
+  private _create(request: XamsRequest) {
+    const { metadata, primaryKey, records, index } = this._getTarget(
+      request,
+      "CREATE"
+    );
+    if (index !== -1) {
+      throw new Error(
+        `${metadata.displayName} ${request.fields[primaryKey]} already exists.`
+      );
+    }
+    const record = this._validate(metadata, {
+      ...request.fields,
+      [primaryKey]: request.fields[primaryKey] ?? uuidv4(),
+    });
+    records.push(record);
+    this._uncommittedChanges.push({
+      tableName: metadata.tableName,
+      id: record[primaryKey],
+      operation: "CREATE",
+    });
+    return this._readRecord(metadata.tableName, record);
+  }
+
+  private _update(request: XamsRequest) {
+    const { metadata, primaryKey, records, index } = this._getTarget(
+      request,
+      "UPDATE"
+    );
+    if (index === -1) {
+      throw new Error(`${metadata.displayName} not found.`);
+    }
+    const record = this._validate(metadata, {
+      ...records[index],
+      ...request.fields,
+    });
+    records[index] = record;
+    this._uncommittedChanges.push({
+      tableName: metadata.tableName,
+      id: record[primaryKey],
+      operation: "UPDATE",
+    });
+    return this._readRecord(metadata.tableName, record);
+  }
+
+  private _delete(request: XamsRequest) {
+    const { metadata, primaryKey, records, index } = this._getTarget(
+      request,
+      "DELETE"
+    );
+    if (index === -1) {
+      throw new Error(`${metadata.displayName} not found.`);
+    }
+    this._uncommittedChanges.push({
+      tableName: metadata.tableName,
+      id: records[index][primaryKey],
+      operation: "DELETE",
+    });
+    records.splice(index, 1);
+    return null;
+  }
+
+  private _exists(request: XamsRequest) {
+    if (request.tableName == null || request.fields == null) {
+      throw new Error("tableName and fields are required.");
+    }
+    const primaryKey = getPrimaryKey(
+      getTableMetadata(this._options.metadata, request.tableName)
+    );
+    return (this._tables[request.tableName] ?? []).some(
+      (r) =>
+        request.fields[primaryKey] != null &&
+        r[primaryKey] === request.fields[primaryKey]
+    );
+  }
+
+  private _upsert(request: XamsRequest) {
+    return this._exists(request)
+      ? this._update(request)
+      : this._create(request);
+  }
+
+  private _metadata(input: any) {
+    if (input.method === "table_metadata") {
+      return getTableMetadata(
+        this._options.metadata,
+        input.parameters?.tableName
+      );
+    }
+    if (input.method === "table_list") {
+      const tag = input.parameters?.tag;
+      const tables =
+        this._options.tables ??
+        this._options.metadata.map((m) => ({
+          tableName: m.tableName,
+          displayName: m.displayName,
+          tag: "",
+        }));
+      return tables
+        .filter((t) => tag == null || t.tag === tag)
+        .filter((t) => this._hasPermission(t.tableName, "READ"))
+        .sort((a, b) => a.tableName.localeCompare(b.tableName))
+        .map((t) =>
+          input.parameters?.includeMetadata === true
+            ? {
+                ...t,
+                metadata: getTableMetadata(this._options.metadata, t.tableName),
+              }
+            : t
+        );
+    }
+    throw new Error("Method not found.");
+  }
+
+  private _permissions(input: any) {
+    if (input.method !== "has_permissions") {
+      throw new Error("Invalid method");
+    }
+    const permissionNames: string[] = input.parameters?.permissionNames ?? [];
+    const permissions = this._options.permissions;
+    return permissionNames.filter(
+      (p) => permissions === undefined || permissions.includes(p)
+    );
+  }
+}
+
+export const createMockServer = (options: MockXamsServerOptions) =>
+  new MockXamsServer(options);
+
+export default MockXamsServer;
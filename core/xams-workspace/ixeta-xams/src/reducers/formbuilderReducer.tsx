@@ -1,5 +1,6 @@
 import { MetadataResponse } from "../api/MetadataResponse";
 import { ReadExcept, ReadFilter, ReadJoin } from "../api/ReadRequest";
+import { FieldName } from "../utils/FieldName";
 
 export type FormBuilderType =
   | "INSTANTIATED"
@@ -19,8 +20,8 @@ export interface ValidationMessage {
   message: string;
 }
 
-export interface FieldValue {
-  field: string;
+export interface FieldValue<T = any> {
+  field: FieldName<T>;
   operator?: string;
   value: string | boolean | number | null;
 }
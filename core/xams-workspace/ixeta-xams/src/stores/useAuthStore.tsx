@@ -1,17 +1,23 @@
-import { create } from "zustand";
+import { StateCreator, create } from "zustand";
+import { createStore } from "zustand/vanilla";
 
-interface AuthStore {
+export interface AuthStore {
   accessToken: string | undefined;
   setAccessToken: (accessToken: string | undefined) => void;
   userId?: string | undefined;
   setUserId: (userId: string | undefined) => void;
 }
 
-export const useAuthStore = create<AuthStore>((set) => ({
+const authState: StateCreator<AuthStore> = (set) => ({
   accessToken: undefined,
   setAccessToken: (accessToken) => set({ accessToken }),
   userId: undefined,
   setUserId: (userId) => set({ userId }),
-}));
+});
+
+// Used by isolated AuthContextProviders, each has its own token and user
+export const createAuthStore = () => createStore<AuthStore>()(authState);
+
+export const useAuthStore = create<AuthStore>()(authState);
 
 export default useAuthStore;
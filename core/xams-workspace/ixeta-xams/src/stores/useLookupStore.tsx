@@ -1,6 +1,7 @@
 import { API_DATA_READ } from "../apiurls";
 import { useAuthRequestType } from "../hooks/useAuthRequest";
-import { create } from "zustand";
+import { StateCreator, create } from "zustand";
+import { createStore } from "zustand/vanilla";
 
 export interface LookupStoreInfo {
   fieldName: string;
@@ -10,7 +11,7 @@ export interface LookupStoreInfo {
   label: string;
 }
 
-interface useLookupStoreDefaultsState {
+export interface useLookupStoreDefaultsState {
   lookups: LookupStoreInfo[];
   getLookupLabel: (
     authRequest: useAuthRequestType,
@@ -27,7 +28,7 @@ interface useLookupStoreDefaultsState {
   ) => Promise<LookupStoreInfo | undefined>;
 }
 
-const useLookupStore = create<useLookupStoreDefaultsState>()((set, get) => ({
+const lookupState: StateCreator<useLookupStoreDefaultsState> = (set, get) => ({
   lookups: [] as LookupStoreInfo[],
   getLookupLabel: async (
     authRequest: useAuthRequestType,
@@ -136,6 +137,11 @@ const useLookupStore = create<useLookupStoreDefaultsState>()((set, get) => ({
 
     return undefined;
   },
-}));
+});
+
+export const createLookupStore = () =>
+  createStore<useLookupStoreDefaultsState>()(lookupState);
+
+const useLookupStore = create<useLookupStoreDefaultsState>()(lookupState);
 
 export default useLookupStore;
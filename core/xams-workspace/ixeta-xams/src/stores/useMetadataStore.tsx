@@ -0,0 +1,123 @@
+import { StateCreator, create } from "zustand";
+import { createStore } from "zustand/vanilla";
+import { MetadataResponse } from "../api/MetadataResponse";
+import { useAuthRequestType } from "../hooks/useAuthRequest";
+
+export interface MetadataEntry {
+  metadata: MetadataResponse;
+  loadedAt: number;
+}
+
+export interface MetadataState {
+  ttlMs: number; // Metadata older than this is loaded again, defaults to 10 minutes
+  entries: { [key: string]: MetadataEntry }; // By api url and table name
+  getMetadata: (
+    authRequest: useAuthRequestType,
+    tableName: string,
+    options?: { reload?: boolean }
+  ) => Promise<MetadataResponse | undefined>;
+  preload: (authRequest: useAuthRequestType, tag?: string) => Promise<void>;
+  invalidateMetadata: (tableNames?: string[]) => void; // Invalidates every table if none are provided
+  setTtl: (ttlMs: number) => void;
+}
+
+const getKey = (authRequest: useAuthRequestType, tableName: string) =>
+  `${authRequest.apiUrl}|${tableName}`;
+
+const metadataState: StateCreator<MetadataState> = (set, get) => {
+  const inflight = new Map<string, Promise<MetadataResponse | undefined>>();
+  // Incremented on invalidation so metadata requested before it isn't cached
+  let generation = 0;
+
+  const setEntries = (metadata: MetadataResponse[], apiUrl: string) => {
+    const entries = { ...get().entries };
+    for (const tableMetadata of metadata) {
+      entries[`${apiUrl}|${tableMetadata.tableName}`] = {
+        metadata: tableMetadata,
+        loadedAt: Date.now(),
+      };
+    }
+    set({ entries });
+  };
+
+  return {
+    ttlMs: 10 * 60 * 1000,
+    entries: {},
+    getMetadata: async (
+      authRequest: useAuthRequestType,
+      tableName: string,
+      options?: { reload?: boolean }
+    ) => {
+      const key = getKey(authRequest, tableName);
+      const entry = get().entries[key];
+      if (
+        entry !== undefined &&
+        options?.reload !== true &&
+        Date.now() - entry.loadedAt <= get().ttlMs
+      ) {
+        return entry.metadata;
+      }
+
+      let promise = inflight.get(key);
+      if (promise !== undefined) {
+        return promise;
+      }
+      const startGeneration = generation;
+      promise = authRequest
+        .metadata(tableName, { cache: false })
+        .then((metadata) => {
+          if (metadata != null && startGeneration === generation) {
+            setEntries([metadata], authRequest.apiUrl);
+          }
+          return metadata ?? undefined;
+        })
+        .finally(() => {
+          if (inflight.get(key) === promise) {
+            inflight.delete(key);
+          }
+        });
+      inflight.set(key, promise);
+      return promise;
+    },
+    preload: async (authRequest: useAuthRequestType, tag?: string) => {
+      const startGeneration = generation;
+      const resp = await authRequest.tables(tag, { includeMetadata: true });
+      if (!resp.succeeded || startGeneration !== generation) {
+        return;
+      }
+      setEntries(
+        resp.data
+          .map((t) => t.metadata)
+          .filter((m): m is MetadataResponse => m != null),
+        authRequest.apiUrl
+      );
+    },
+    invalidateMetadata: (tableNames?: string[]) => {
+      generation++;
+      const entries = { ...get().entries };
+      for (const key in entries) {
+        if (
+          tableNames === undefined ||
+          tableNames.includes(entries[key].metadata.tableName)
+        ) {
+          delete entries[key];
+          inflight.delete(key);
+        }
+      }
+      set({ entries });
+    },
+    setTtl: (ttlMs: number) => set({ ttlMs }),
+  };
+};
+
+export const createMetadataStore = () =>
+  createStore<MetadataState>()(metadataState);
+
+export const useMetadataStore = create<MetadataState>()(metadataState);
+
+// Call after a schema deployment so tables and forms pick up the new fields
+// Only the global store is invalidated, use useInvalidateMetadata under an isolated AuthContextProvider
+export const invalidateMetadata = (tableNames?: string[]) =>
+  useMetadataStore.getState().invalidateMetadata(tableNames);
+
+export default useMetadataStore;
@@ -0,0 +1,305 @@
+import { StateCreator, create } from "zustand";
+import { createStore } from "zustand/vanilla";
+import { API_DATA_CREATE, API_DATA_DELETE } from "../apiurls";
+import { XamsClient } from "../api/XamsClient";
+import {
+  DB_NAME,
+  deleteRecord,
+  getAllRecords,
+  putRecord,
+} from "../utils/OfflineDb";
+
+export interface OfflineConflict {
+  reason: "CHANGED" | "DELETED" | "REJECTED";
+  message: string;
+  fields: string[]; // Fields changed on the server since the record was edited
+  current?: any | null; // The record on the server, null if it was deleted
+}
+
+export interface OfflineMutation {
+  id: string;
+  url: string;
+  method: string;
+  tableName: string;
+  fields: any;
+  parameters?: any;
+  recordId?: string; // Temporary id for creates until they're replayed
+  snapshot?: any; // The record before it was edited, used to detect conflicts
+  createdAt: number;
+  conflict?: OfflineConflict; // Set if the mutation couldn't be replayed
+}
+
+export interface OfflineState {
+  dbName: string; // The IndexedDB database the mutations are saved in
+  isOnline: boolean;
+  isLoaded: boolean;
+  isReplaying: boolean;
+  mutations: OfflineMutation[]; // In the order they were made
+  load: () => Promise<void>;
+  setOnline: (isOnline: boolean) => void;
+  enqueue: (mutation: Omit<OfflineMutation, "createdAt">) => Promise<void>;
+  replay: (client: XamsClient) => Promise<void>;
+  resolveConflict: (
+    client: XamsClient,
+    mutationId: string,
+    resolution: "OVERWRITE" | "DISCARD"
+  ) => Promise<void>;
+  isPending: (tableName: string, recordId?: string) => boolean;
+}
+
+type ReplayResult = "SYNCED" | "CONFLICT" | "STOP";
+
+// Keeps mutations made in the same millisecond in order
+let lastCreatedAt = 0;
+
+const isEqual = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+const offlineState: StateCreator<OfflineState> = (set, get) => {
+  const save = async (mutation: OfflineMutation) => {
+    set({
+      mutations: get().mutations.some((m) => m.id === mutation.id)
+        ? get().mutations.map((m) => (m.id === mutation.id ? mutation : m))
+        : [...get().mutations, mutation],
+    });
+    try {
+      await putRecord(mutation, get().dbName);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const remove = async (mutationId: string) => {
+    set({ mutations: get().mutations.filter((m) => m.id !== mutationId) });
+    try {
+      await deleteRecord(mutationId, get().dbName);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  // Point queued mutations at the real id of a record created offline, including lookups to it
+  const replaceId = async (tempId: string, id: string) => {
+    for (const mutation of get().mutations) {
+      const fields = { ...mutation.fields };
+      let changed = mutation.recordId === tempId;
+      for (const key in fields) {
+        if (fields[key] === tempId) {
+          fields[key] = id;
+          changed = true;
+        }
+      }
+      if (changed) {
+        await save({
+          ...mutation,
+          fields,
+          recordId: mutation.recordId === tempId ? id : mutation.recordId,
+        });
+      }
+    }
+  };
+
+  const replayMutation = async (
+    client: XamsClient,
+    mutation: OfflineMutation,
+    force: boolean
+  ): Promise<ReplayResult> => {
+    const primaryKey = `${mutation.tableName}Id`;
+
+    // Check the record hasn't been changed by someone else since it was edited
+    if (!force && mutation.snapshot != null && mutation.recordId != null) {
+      const readResp = await client.read<any>(
+        {
+          tableName: mutation.tableName,
+          fields: ["*"],
+          filters: [
+            { field: primaryKey, operator: "==", value: mutation.recordId },
+          ],
+          maxResults: 1,
+          page: 1,
+        },
+        { cache: false, hideFailureMessage: true }
+      );
+      if (!readResp.succeeded) {
+        return "STOP";
+      }
+      const current = readResp.data.results[0];
+      if (current === undefined) {
+        if (mutation.url === API_DATA_DELETE) {
+          await remove(mutation.id);
+          return "SYNCED";
+        }
+        await save({
+          ...mutation,
+          conflict: {
+            reason: "DELETED",
+            message: `The ${mutation.tableName} record was deleted while offline.`,
+            fields: [],
+            current: null,
+          },
+        });
+        return "CONFLICT";
+      }
+      const fields = Object.keys(mutation.fields).filter(
+        (field) =>
+          field in mutation.snapshot &&
+          field in current &&
+          !isEqual(current[field], mutation.snapshot[field]) &&
+          !isEqual(current[field], mutation.fields[field])
+      );
+      if (fields.length > 0) {
+        await save({
+          ...mutation,
+          conflict: {
+            reason: "CHANGED",
+            message: `${fields.join(", ")} changed while offline.`,
+            fields,
+            current,
+          },
+        });
+        return "CONFLICT";
+      }
+    }
+
+    const resp = await client.execute<any>({
+      url: mutation.url,
+      method: mutation.method,
+      body: {
+        tableName: mutation.tableName,
+        fields: mutation.fields,
+        parameters: mutation.parameters,
+      },
+      queueOffline: false,
+    });
+    if (resp.succeeded) {
+      await remove(mutation.id);
+      const id = resp.data?.[primaryKey];
+      if (
+        mutation.url === API_DATA_CREATE &&
+        mutation.recordId != null &&
+        id != null
+      ) {
+        await replaceId(mutation.recordId, id);
+      }
+      return "SYNCED";
+    }
+    // Still offline or signed out, try again later
+    if (
+      resp.aborted === true ||
+      resp.response === undefined ||
+      resp.response.status === 401
+    ) {
+      return "STOP";
+    }
+    await save({
+      ...mutation,
+      conflict: {
+        reason: "REJECTED",
+        message: resp.friendlyMessage,
+        fields: [],
+      },
+    });
+    return "CONFLICT";
+  };
+
+  return {
+    dbName: DB_NAME,
+    isOnline: typeof navigator === "undefined" ? true : navigator.onLine,
+    isLoaded: false,
+    isReplaying: false,
+    mutations: [],
+    load: async () => {
+      let stored: OfflineMutation[] = [];
+      try {
+        stored = await getAllRecords<OfflineMutation>(get().dbName);
+      } catch (error) {
+        console.error(error);
+      }
+      const mutations = [
+        ...stored.filter((s) => !get().mutations.some((m) => m.id === s.id)),
+        ...get().mutations,
+      ].sort((a, b) => a.createdAt - b.createdAt);
+      lastCreatedAt = Math.max(
+        lastCreatedAt,
+        ...mutations.map((m) => m.createdAt)
+      );
+      set({ mutations, isLoaded: true });
+    },
+    setOnline: (isOnline: boolean) => set({ isOnline }),
+    enqueue: async (mutation: Omit<OfflineMutation, "createdAt">) => {
+      lastCreatedAt = Math.max(Date.now(), lastCreatedAt + 1);
+      // A record created offline can't have been changed by anyone else
+      const isCreatedOffline = get().mutations.some(
+        (m) => m.url === API_DATA_CREATE && m.recordId === mutation.recordId
+      );
+      await save({
+        ...mutation,
+        snapshot: isCreatedOffline ? undefined : mutation.snapshot,
+        createdAt: lastCreatedAt,
+      });
+    },
+    replay: async (client: XamsClient) => {
+      if (get().isReplaying || !get().isOnline) {
+        return;
+      }
+      set({ isReplaying: true });
+      try {
+        // Later mutations of a record with a conflict wait until it's resolved
+        const blocked = new Set<string>();
+        for (const { id } of get().mutations) {
+          const mutation = get().mutations.find((m) => m.id === id);
+          if (mutation === undefined) {
+            continue;
+          }
+          const recordKey = `${mutation.tableName}|${mutation.recordId}`;
+          if (mutation.conflict !== undefined || blocked.has(recordKey)) {
+            blocked.add(recordKey);
+            continue;
+          }
+          const result = await replayMutation(client, mutation, false);
+          if (result === "STOP") {
+            break;
+          }
+          if (result === "CONFLICT") {
+            blocked.add(recordKey);
+          }
+        }
+      } finally {
+        set({ isReplaying: false });
+      }
+    },
+    resolveConflict: async (
+      client: XamsClient,
+      mutationId: string,
+      resolution: "OVERWRITE" | "DISCARD"
+    ) => {
+      const mutation = get().mutations.find((m) => m.id === mutationId);
+      if (mutation === undefined) {
+        return;
+      }
+      if (resolution === "DISCARD") {
+        await remove(mutationId);
+      } else {
+        const { conflict, ...rest } = mutation;
+        await replayMutation(client, rest, true);
+      }
+      await get().replay(client);
+    },
+    isPending: (tableName: string, recordId?: string) =>
+      get().mutations.some(
+        (m) =>
+          m.tableName === tableName &&
+          (recordId === undefined || m.recordId === recordId)
+      ),
+  };
+};
+
+// Each store needs its own database so queued mutations are only replayed to their own api
+export const createOfflineStore = (dbName: string) =>
+  createStore<OfflineState>()((set, get, api) => ({
+    ...offlineState(set, get, api),
+    dbName: dbName,
+  }));
+
+export const useOfflineStore = create<OfflineState>()(offlineState);
+
+export default useOfflineStore;
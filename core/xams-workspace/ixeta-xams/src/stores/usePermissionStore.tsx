@@ -1,8 +1,11 @@
-import { API_DATA_READ, API_DATA_PERMISSIONS } from "../apiurls";
+import { API_DATA_PERMISSIONS } from "../apiurls";
 import { useAuthRequestType } from "../hooks/useAuthRequest";
-import { create } from "zustand";
+import { StateCreator, StoreApi, create } from "zustand";
+import { createStore } from "zustand/vanilla";
 import { PermissionUtil } from "../utils/PermissionUtil";
 import Query from "../utils/Query";
+import useAuthStore, { AuthStore } from "./useAuthStore";
+import useQueryCacheStore, { QueryCacheState } from "./useQueryCacheStore";
 
 export const readPermisions = `TABLE_{tableName}_READ_SYSTEM, TABLE_{tableName}_READ_TEAM, TABLE_{tableName}_READ_USER`;
 export const createPermissions = `TABLE_{tableName}_CREATE_SYSTEM, TABLE_{tableName}_CREATE_TEAM, TABLE_{tableName}_CREATE_USER`;
@@ -20,120 +23,262 @@ export type PermissionLevel = "SYSTEM" | "TEAM" | "USER" | "NONE";
 
 export interface TablePermission {
   tableName: string;
+  apiUrl?: string;
   permissions: TablePermissions;
 }
 
 export interface usePermissionStoreState {
   tablePermissions: TablePermission[];
+  permissions: { [key: string]: boolean }; // Whether the user has each checked permission, by api url and name
+  permissionErrors: { [key: string]: string }; // Why the last check of a permission failed, cleared by invalidatePermissions
   teams: string[];
   getTablePermissions: (
     authRequest: useAuthRequestType,
     tableName: string
   ) => Promise<TablePermissions>;
+  preloadTablePermissions: (
+    authRequest: useAuthRequestType,
+    tableNames: string[]
+  ) => Promise<void>;
   getPermissions: (
     authRequest: useAuthRequestType,
     permissions: string[]
   ) => Promise<string[]>;
   getTeams: (authRequest: useAuthRequestType) => Promise<string[]>;
+  invalidatePermissions: () => void;
 }
 
-export const usePermissionStore = create<usePermissionStoreState>()(
-  (set, get) => ({
+// Changes to these tables can change what the user is allowed to do
+const SECURITY_TABLES = [
+  "Permission",
+  "Role",
+  "RolePermission",
+  "UserRole",
+  "Team",
+  "TeamRole",
+  "TeamUser",
+];
+
+const NO_PERMISSIONS: TablePermissions = {
+  read: "NONE",
+  create: "NONE",
+  delete: "NONE",
+  update: "NONE",
+};
+
+const getKey = (authRequest: useAuthRequestType, name: string) =>
+  `${authRequest.apiUrl}|${name}`;
+
+export const getTablePermissionNames = (tableName: string) =>
+  `${readPermisions.replaceAll(
+    "{tableName}",
+    tableName
+  )}, ${createPermissions.replaceAll(
+    "{tableName}",
+    tableName
+  )}, ${deletePermissions.replaceAll(
+    "{tableName}",
+    tableName
+  )}, ${updatePermissions.replaceAll("{tableName}", tableName)}`
+    .split(",")
+    .map((p) => p.trim());
+
+export const toTablePermissions = (
+  tableName: string,
+  permissionsData: string[]
+): TablePermissions => {
+  const readPms = permissionsData.filter((p) =>
+    p.startsWith(`TABLE_${tableName}_READ_`)
+  );
+  const createPms = permissionsData.filter((p) =>
+    p.startsWith(`TABLE_${tableName}_CREATE_`)
+  );
+  const deletePms = permissionsData.filter((p) =>
+    p.startsWith(`TABLE_${tableName}_DELETE_`)
+  );
+  const updatePms = permissionsData.filter((p) =>
+    p.startsWith(`TABLE_${tableName}_UPDATE_`)
+  );
+  return {
+    read: PermissionUtil.getHighestPermissionLevel(readPms),
+    create: PermissionUtil.getHighestPermissionLevel(createPms),
+    delete: PermissionUtil.getHighestPermissionLevel(deletePms),
+    update: PermissionUtil.getHighestPermissionLevel(updatePms),
+  } as TablePermissions;
+};
+
+const permissionState: StateCreator<usePermissionStoreState> = (set, get) => {
+  const inflight = new Map<string, Promise<string[]>>();
+  // Incremented on invalidation so permissions requested before it aren't cached
+  let generation = 0;
+
+  // Requests the permissions that aren't cached or already requested, returns the ones the user has
+  const checkPermissions = async (
+    authRequest: useAuthRequestType,
+    permissionNames: string[]
+  ) => {
+    const names = Array.from(new Set(permissionNames));
+    const pending: Promise<string[]>[] = [];
+    const missing = names.filter((name) => {
+      const key = getKey(authRequest, name);
+      if (get().permissions[key] !== undefined) {
+        return false;
+      }
+      const promise = inflight.get(key);
+      if (promise !== undefined) {
+        pending.push(promise);
+        return false;
+      }
+      return true;
+    });
+
+    if (missing.length > 0) {
+      const startGeneration = generation;
+      const promise = authRequest
+        .execute<string[]>({
+          url: API_DATA_PERMISSIONS,
+          method: "POST",
+          body: {
+            method: "has_permissions",
+            parameters: {
+              permissionNames: missing,
+            },
+          },
+        })
+        .then((resp) => {
+          if (resp?.succeeded !== true) {
+            if (startGeneration === generation && resp?.aborted !== true) {
+              const permissionErrors = { ...get().permissionErrors };
+              for (const name of missing) {
+                permissionErrors[getKey(authRequest, name)] =
+                  resp?.friendlyMessage || "Failed to check permissions.";
+              }
+              set({ permissionErrors });
+            }
+            return [];
+          }
+          const granted = resp.data ?? [];
+          if (startGeneration === generation) {
+            const permissions = { ...get().permissions };
+            const permissionErrors = { ...get().permissionErrors };
+            for (const name of missing) {
+              const key = getKey(authRequest, name);
+              permissions[key] = granted.includes(name);
+              delete permissionErrors[key];
+            }
+            set({ permissions, permissionErrors });
+          }
+          return granted;
+        })
+        .finally(() => {
+          for (const name of missing) {
+            const key = getKey(authRequest, name);
+            if (inflight.get(key) === promise) {
+              inflight.delete(key);
+            }
+          }
+        });
+      for (const name of missing) {
+        inflight.set(getKey(authRequest, name), promise);
+      }
+      pending.push(promise);
+    }
+
+    const responses = await Promise.all(pending);
+    const permissions = get().permissions;
+    return names.filter(
+      (name) =>
+        permissions[getKey(authRequest, name)] === true ||
+        responses.some((r) => r.includes(name))
+    );
+  };
+
+  const setTablePermissions = (
+    authRequest: useAuthRequestType,
+    tableNames: string[],
+    permissionsData: string[]
+  ) => {
+    const tablePermissions = get().tablePermissions.filter(
+      (p) => !tableNames.includes(p.tableName)
+    );
+    for (const tableName of tableNames) {
+      tablePermissions.push({
+        tableName: tableName,
+        apiUrl: authRequest.apiUrl,
+        permissions: toTablePermissions(tableName, permissionsData),
+      });
+    }
+    set({ tablePermissions });
+  };
+
+  return {
     tablePermissions: [],
+    permissions: {},
+    permissionErrors: {},
     teams: [],
     getTablePermissions: async (
       authRequest: useAuthRequestType,
       tableName: string
     ) => {
       const tablePermission = get().tablePermissions.find(
-        (p) => p.tableName === tableName
+        (p) => p.tableName === tableName && p.apiUrl === authRequest.apiUrl
       );
       if (tablePermission !== undefined) {
         return tablePermission.permissions;
       }
 
-      const permissions = `${readPermisions.replaceAll(
-        "{tableName}",
-        tableName
-      )}, ${createPermissions.replaceAll(
-        "{tableName}",
-        tableName
-      )}, ${deletePermissions.replaceAll(
-        "{tableName}",
-        tableName
-      )}, ${updatePermissions.replaceAll("{tableName}", tableName)}`;
-
-      const resp = await authRequest.execute({
-        url: API_DATA_PERMISSIONS,
-        method: "POST",
-        body: {
-          method: "has_permissions",
-          parameters: {
-            permissionNames: permissions.split(",").map((p) => p.trim()),
-          },
-        },
-      });
-      if (resp?.succeeded === true) {
-        const permissionsData = resp.data as string[];
-        if (permissionsData.length > 0) {
-          const readPms = permissionsData.filter((p) =>
-            p.startsWith(`TABLE_${tableName}_READ`)
-          );
-          const createPms = permissionsData.filter((p) =>
-            p.startsWith(`TABLE_${tableName}_CREATE`)
-          );
-          const deletePms = permissionsData.filter((p) =>
-            p.startsWith(`TABLE_${tableName}_DELETE`)
-          );
-          const updatePms = permissionsData.filter((p) =>
-            p.startsWith(`TABLE_${tableName}_UPDATE`)
-          );
-
-          const results = {
-            read: PermissionUtil.getHighestPermissionLevel(readPms),
-            create: PermissionUtil.getHighestPermissionLevel(createPms),
-            delete: PermissionUtil.getHighestPermissionLevel(deletePms),
-            update: PermissionUtil.getHighestPermissionLevel(updatePms),
-          } as TablePermissions;
-          return results;
-        }
+      const names = getTablePermissionNames(tableName);
+      const startGeneration = generation;
+      const permissionsData = await checkPermissions(authRequest, names);
+      // Only cache once every permission of the table has been checked
+      const permissions = get().permissions;
+      if (
+        startGeneration === generation &&
+        names.every((n) => permissions[getKey(authRequest, n)] !== undefined)
+      ) {
+        setTablePermissions(authRequest, [tableName], permissionsData);
+        return toTablePermissions(tableName, permissionsData);
       }
-      const results = {
-        read: "NONE",
-        create: "NONE",
-        delete: "NONE",
-        update: "NONE",
-      } as TablePermissions;
-      return results;
+      return permissionsData.length > 0
+        ? toTablePermissions(tableName, permissionsData)
+        : NO_PERMISSIONS;
     },
-    getPermissions: async (
+    preloadTablePermissions: async (
       authRequest: useAuthRequestType,
-      permissions: string[]
+      tableNames: string[]
     ) => {
-      // Check permissions first
-      let userPermissions = get().tablePermissions;
-      let results = permissions.filter(
-        (p) => userPermissions.find((up) => up.tableName === p) != null
+      const tables = tableNames.filter(
+        (t) =>
+          !get().tablePermissions.some(
+            (p) => p.tableName === t && p.apiUrl === authRequest.apiUrl
+          )
       );
-      if (results.length === permissions.length) {
-        return results;
+      if (tables.length === 0) {
+        return;
       }
-
-      const resp = await authRequest.execute({
-        url: API_DATA_PERMISSIONS,
-        method: "POST",
-        body: {
-          method: "has_permissions",
-          parameters: {
-            permissionNames: permissions,
-          },
-        },
-      });
-      if (resp?.succeeded === true) {
-        const permissionsData = resp.data as string[];
-        return permissionsData;
+      // One request for every table
+      const names = tables.flatMap((t) => getTablePermissionNames(t));
+      const startGeneration = generation;
+      const permissionsData = await checkPermissions(authRequest, names);
+      const permissions = get().permissions;
+      if (startGeneration !== generation) {
+        return;
       }
-      return [];
+      setTablePermissions(
+        authRequest,
+        tables.filter((t) =>
+          getTablePermissionNames(t).every(
+            (n) => permissions[getKey(authRequest, n)] !== undefined
+          )
+        ),
+        permissionsData
+      );
+    },
+    getPermissions: async (
+      authRequest: useAuthRequestType,
+      permissions: string[]
+    ) => {
+      return checkPermissions(authRequest, permissions);
     },
     getTeams: async (authRequest: useAuthRequestType) => {
       if (get().teams.length > 0) {
@@ -158,8 +303,65 @@ export const usePermissionStore = create<usePermissionStoreState>()(
 
       return resp.data.results.map((d: any) => d.Name) ?? [];
     },
-  })
+    invalidatePermissions: () => {
+      generation++;
+      inflight.clear();
+      set({
+        tablePermissions: [],
+        permissions: {},
+        permissionErrors: {},
+        teams: [],
+      });
+    },
+  };
+};
+
+const bindPermissionStore = <S extends StoreApi<usePermissionStoreState>>(
+  permissionStore: S,
+  authStore: StoreApi<AuthStore>,
+  queryCacheStore: StoreApi<QueryCacheState>
+) => {
+  // Permissions are checked again for the new user
+  authStore.subscribe((state, prevState) => {
+    if (state.userId !== prevState.userId) {
+      permissionStore.getState().invalidatePermissions();
+    }
+  });
+
+  // And when their roles or teams are changed through the client
+  queryCacheStore.subscribe((state, prevState) => {
+    if (
+      state.tableVersions !== prevState.tableVersions &&
+      SECURITY_TABLES.some(
+        (t) => state.tableVersions[t] !== prevState.tableVersions[t]
+      )
+    ) {
+      permissionStore.getState().invalidatePermissions();
+    }
+  });
+  return permissionStore;
+};
+
+// Invalidated when the user of the auth store changes or roles are changed through the query cache's client
+export const createPermissionStore = (
+  authStore: StoreApi<AuthStore>,
+  queryCacheStore: StoreApi<QueryCacheState>
+) =>
+  bindPermissionStore(
+    createStore<usePermissionStoreState>()(permissionState),
+    authStore,
+    queryCacheStore
+  );
+
+export const usePermissionStore = bindPermissionStore(
+  create<usePermissionStoreState>()(permissionState),
+  useAuthStore,
+  useQueryCacheStore
 );
 
+// Call when the user's roles are changed outside of the client, ie: by another admin
+export const invalidatePermissions = () =>
+  usePermissionStore.getState().invalidatePermissions();
+
 export type usePermissionStoreType = ReturnType<typeof usePermissionStore>;
 export default usePermissionStore;
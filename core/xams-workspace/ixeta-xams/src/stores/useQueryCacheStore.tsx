@@ -0,0 +1,162 @@
+import { StateCreator, create } from "zustand";
+import { createStore } from "zustand/vanilla";
+import { ApiResponse } from "../api/ApiResponse";
+
+export interface QueryCacheEntry {
+  key: string;
+  tables: string[]; // Tables the cached response depends on
+  response: ApiResponse<any>;
+  updatedAt: number;
+}
+
+export interface QueryOptions {
+  reload?: boolean; // Skip the cached response, but still cache the new one
+}
+
+export interface QueryCacheState {
+  staleTimeMs: number; // Responses older than this are revalidated in the background
+  gcTimeMs: number; // Responses that haven't been queried for this long are removed
+  maxEntries: number; // The least recently queried responses are removed past this count
+  entries: { [key: string]: QueryCacheEntry };
+  tableVersions: { [tableName: string]: number }; // Incremented when a table's cached data changes
+  query: <T>(
+    key: string,
+    tables: string[],
+    fetcher: () => Promise<ApiResponse<T>>,
+    options?: QueryOptions
+  ) => Promise<ApiResponse<T>>;
+  invalidate: (tableNames?: string[]) => void; // Invalidates every table if none are provided
+}
+
+const queryCacheState: StateCreator<QueryCacheState> = (set, get) => {
+  const inflight = new Map<string, Promise<ApiResponse<any>>>();
+  // Incremented on invalidation so responses fetched before a mutation aren't cached
+  let generation = 0;
+  // When each entry was last queried, kept outside the state so cache hits don't notify subscribers
+  const usedAt = new Map<string, number>();
+
+  // Removes the entries that haven't been queried within gcTimeMs, then the least recently queried
+  const evict = (entries: QueryCacheState["entries"]) => {
+    const { gcTimeMs, maxEntries } = get();
+    const now = Date.now();
+    // Oldest first, entries queried in the same millisecond stay in the order they were added
+    const keys = Object.keys(entries).sort(
+      (a, b) => (usedAt.get(a) ?? 0) - (usedAt.get(b) ?? 0)
+    );
+    keys.forEach((key, index) => {
+      if (
+        index < keys.length - maxEntries ||
+        now - (usedAt.get(key) ?? 0) > gcTimeMs
+      ) {
+        delete entries[key];
+        usedAt.delete(key);
+      }
+    });
+    return entries;
+  };
+
+  const bumpVersions = (tables: string[]) => {
+    const tableVersions = { ...get().tableVersions };
+    for (const table of tables) {
+      tableVersions[table] = (tableVersions[table] ?? 0) + 1;
+    }
+    set({ tableVersions });
+  };
+
+  const fetch = <T,>(
+    key: string,
+    tables: string[],
+    fetcher: () => Promise<ApiResponse<T>>
+  ) => {
+    let promise = inflight.get(key) as Promise<ApiResponse<T>> | undefined;
+    if (promise !== undefined) {
+      return promise;
+    }
+    const startGeneration = generation;
+    promise = fetcher()
+      .then((resp) => {
+        if (resp.succeeded && startGeneration === generation) {
+          usedAt.set(key, Date.now());
+          set({
+            entries: evict({
+              ...get().entries,
+              [key]: {
+                key,
+                tables,
+                response: resp,
+                updatedAt: Date.now(),
+              },
+            }),
+          });
+        }
+        return resp;
+      })
+      .finally(() => {
+        if (inflight.get(key) === promise) {
+          inflight.delete(key);
+        }
+      });
+    inflight.set(key, promise);
+    return promise;
+  };
+
+  return {
+    staleTimeMs: 5000,
+    gcTimeMs: 5 * 60 * 1000,
+    maxEntries: 100,
+    entries: {},
+    tableVersions: {},
+    query: async <T,>(
+      key: string,
+      tables: string[],
+      fetcher: () => Promise<ApiResponse<T>>,
+      options?: QueryOptions
+    ) => {
+      const entry = get().entries[key];
+      if (entry !== undefined) {
+        usedAt.set(key, Date.now());
+      }
+      if (entry === undefined || options?.reload === true) {
+        return await fetch(key, tables, fetcher);
+      }
+
+      // Stale while revalidate, return the cached response and refresh it in the background
+      if (Date.now() - entry.updatedAt > get().staleTimeMs) {
+        fetch(key, tables, fetcher).then((resp) => {
+          if (
+            resp.succeeded &&
+            JSON.stringify(resp.data) !== JSON.stringify(entry.response.data)
+          ) {
+            bumpVersions(tables);
+          }
+        });
+      }
+      return entry.response as ApiResponse<T>;
+    },
+    invalidate: (tableNames?: string[]) => {
+      generation++;
+      const entries = { ...get().entries };
+      const tables = new Set(Object.keys(get().tableVersions));
+      for (const key in entries) {
+        if (
+          tableNames === undefined ||
+          entries[key].tables.some((t) => tableNames.includes(t))
+        ) {
+          entries[key].tables.forEach((t) => tables.add(t));
+          delete entries[key];
+          inflight.delete(key);
+          usedAt.delete(key);
+        }
+      }
+      set({ entries });
+      bumpVersions(tableNames ?? Array.from(tables));
+    },
+  };
+};
+
+export const createQueryCacheStore = () =>
+  createStore<QueryCacheState>()(queryCacheState);
+
+export const useQueryCacheStore = create<QueryCacheState>()(queryCacheState);
+
+export default useQueryCacheStore;
@@ -0,0 +1,18 @@
+// Same as NoInfer<T> without requiring TypeScript 5.4
+type NoInferType<T> = [T][T extends any ? 0 : never];
+
+// Field names of an entity type, any string is allowed when the entity type isn't known.
+// Field names never drive inference of the entity type, ie: new Query(["Name"]) stays untyped
+export type FieldName<T = any> = unknown extends NoInferType<T>
+  ? string
+  : string extends keyof NoInferType<T>
+  ? string
+  : Extract<keyof NoInferType<T>, string>;
+
+// Fields of joined tables are referenced as alias.Field
+export type JoinedFieldName<J = {}> = {
+  [A in Extract<keyof J, string>]: `${A}.${FieldName<J[A]>}`;
+}[Extract<keyof J, string>];
+
+// Field names when the joined tables aren't known, ie: DataTable joins
+export type AliasedFieldName<T = any> = FieldName<T> | `${string}.${string}`;
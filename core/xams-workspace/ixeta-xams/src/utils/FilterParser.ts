@@ -0,0 +1,289 @@
+import { ReadFilterOperator } from "../api/ReadRequest";
+
+export interface ParsedCondition {
+  field: string;
+  operator: ReadFilterOperator;
+  value?: string | string[]; // An array for In, NotIn and Between
+}
+
+export interface ParsedFilter {
+  logicalOperator: "AND" | "OR";
+  conditions: ParsedCondition[];
+  filters: ParsedFilter[];
+}
+
+// Thrown when a filter expression can't be parsed, position is the index in the text
+export class FilterParseError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}.`);
+    this.position = position;
+  }
+}
+
+interface Token {
+  type: "word" | "string" | "symbol" | "(" | ")" | ",";
+  text: string;
+  position: number;
+}
+
+const SYMBOL_OPERATORS = ["==", "!=", ">=", "<=", ">", "<"];
+
+const WORD_OPERATORS: ReadFilterOperator[] = [
+  "Contains",
+  "In",
+  "NotIn",
+  "Between",
+  "StartsWith",
+  "EndsWith",
+  "IsNull",
+  "IsNotNull",
+  "EqualsIgnoreCase",
+];
+
+const KEYWORDS = ["AND", "OR"];
+
+// Words end at whitespace, parentheses, commas, quotes and comparison symbols
+const WORD_END = /[\s(),'"=!<>]/;
+
+const tokenize = (text: string) => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ type: char, text: char, position: i });
+      i++;
+      continue;
+    }
+    if (char === "'" || char === '"') {
+      let value = "";
+      let end = i + 1;
+      while (end < text.length && text[end] !== char) {
+        // A backslash escapes the next character, ie: \" or \\
+        if (text[end] === "\\" && end + 1 < text.length) {
+          end++;
+        }
+        value += text[end];
+        end++;
+      }
+      if (end >= text.length) {
+        throw new FilterParseError("Unterminated string", i);
+      }
+      tokens.push({ type: "string", text: value, position: i });
+      i = end + 1;
+      continue;
+    }
+    const symbol = SYMBOL_OPERATORS.find((s) => text.startsWith(s, i));
+    if (symbol !== undefined) {
+      tokens.push({ type: "symbol", text: symbol, position: i });
+      i += symbol.length;
+      continue;
+    }
+    if (WORD_END.test(char)) {
+      throw new FilterParseError(`Unexpected "${char}"`, i);
+    }
+    let end = i;
+    while (end < text.length && !WORD_END.test(text[end])) {
+      end++;
+    }
+    tokens.push({ type: "word", text: text.slice(i, end), position: i });
+    i = end;
+  }
+  return tokens;
+};
+
+const isKeyword = (token: Token | undefined, keyword: string) =>
+  token?.type === "word" && token.text.toUpperCase() === keyword;
+
+// Parses expressions like: Name == Ben AND (Type In (Customer, Partner) OR Age > 30)
+// AND binds tighter than OR, strings with spaces or symbols are quoted
+export const parseFilterText = (text: string): ParsedFilter => {
+  const tokens = tokenize(text);
+  let index = 0;
+
+  const peek = () => tokens[index] as Token | undefined;
+  const position = () => peek()?.position ?? text.length;
+  const describe = () =>
+    peek() === undefined ? "end of filter" : `"${peek()!.text}"`;
+
+  const expect = (type: Token["type"], expected: string) => {
+    const token = peek();
+    if (token?.type !== type) {
+      throw new FilterParseError(
+        `Expected ${expected} but found ${describe()}`,
+        position()
+      );
+    }
+    index++;
+    return token;
+  };
+
+  const parseLiteral = (): string => {
+    const token = peek();
+    if (token?.type === "string") {
+      index++;
+      return token.text;
+    }
+    if (token?.type !== "word" || KEYWORDS.includes(token.text.toUpperCase())) {
+      throw new FilterParseError(
+        `Expected a value but found ${describe()}`,
+        position()
+      );
+    }
+    index++;
+    // Filter values are strings, ie: 00123 keeps its zeros and null is compared as null by the server
+    return token.text;
+  };
+
+  const parseOperator = (): ReadFilterOperator => {
+    const token = peek();
+    const operator =
+      token?.type === "symbol"
+        ? (token.text as ReadFilterOperator)
+        : token?.type === "word"
+        ? WORD_OPERATORS.find(
+            (o) => o.toLowerCase() === token.text.toLowerCase()
+          )
+        : undefined;
+    if (operator === undefined) {
+      throw new FilterParseError(
+        `Expected an operator but found ${describe()}`,
+        position()
+      );
+    }
+    index++;
+    return operator;
+  };
+
+  const parseCondition = (): ParsedCondition => {
+    const fieldToken = peek();
+    if (
+      fieldToken?.type !== "word" ||
+      KEYWORDS.includes(fieldToken.text.toUpperCase())
+    ) {
+      throw new FilterParseError(
+        `Expected a field but found ${describe()}`,
+        position()
+      );
+    }
+    index++;
+    const field = fieldToken.text;
+    const operator = parseOperator();
+    switch (operator) {
+      case "IsNull":
+      case "IsNotNull":
+        return { field, operator };
+      case "In":
+      case "NotIn": {
+        expect("(", "(");
+        const values: string[] = [];
+        if (peek()?.type !== ")") {
+          values.push(parseLiteral());
+          while (peek()?.type === ",") {
+            index++;
+            values.push(parseLiteral());
+          }
+        }
+        expect(")", ", or )");
+        return { field, operator, value: values };
+      }
+      case "Between": {
+        const start = parseLiteral();
+        if (!isKeyword(peek(), "AND")) {
+          throw new FilterParseError(
+            `Expected AND but found ${describe()}`,
+            position()
+          );
+        }
+        index++;
+        return { field, operator, value: [start, parseLiteral()] };
+      }
+      default:
+        return { field, operator, value: parseLiteral() };
+    }
+  };
+
+  // AND of conditions and parenthesized groups
+  const parseTerm = (): ParsedFilter => {
+    const term: ParsedFilter = {
+      logicalOperator: "AND",
+      conditions: [],
+      filters: [],
+    };
+    const parseFactor = () => {
+      if (peek()?.type === "(") {
+        index++;
+        term.filters.push(parseExpression());
+        expect(")", "AND, OR or )");
+      } else {
+        term.conditions.push(parseCondition());
+      }
+    };
+    parseFactor();
+    while (isKeyword(peek(), "AND")) {
+      index++;
+      parseFactor();
+    }
+    return term;
+  };
+
+  const parseExpression = (): ParsedFilter => {
+    const terms = [parseTerm()];
+    while (isKeyword(peek(), "OR")) {
+      index++;
+      terms.push(parseTerm());
+    }
+    if (terms.length === 1) {
+      return terms[0];
+    }
+    // Like exp().or(), single conditions sit on the OR and groups are nested
+    const filter: ParsedFilter = {
+      logicalOperator: "OR",
+      conditions: [],
+      filters: [],
+    };
+    for (const term of terms) {
+      if (term.conditions.length === 1 && term.filters.length === 0) {
+        filter.conditions.push(term.conditions[0]);
+      } else if (term.conditions.length === 0 && term.filters.length === 1) {
+        filter.filters.push(term.filters[0]);
+      } else {
+        filter.filters.push(term);
+      }
+    }
+    return filter;
+  };
+
+  const filter = parseExpression();
+  if (peek() !== undefined) {
+    throw new FilterParseError(`Unexpected ${describe()}`, position());
+  }
+  return filter;
+};
+
+// Quotes values that wouldn't be read back as the same value
+export const formatFilterValue = (value: any) => {
+  if (value === null) {
+    return "null";
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value !== "string") {
+    return String(value);
+  }
+  if (
+    value === "" ||
+    WORD_END.test(value) ||
+    KEYWORDS.includes(value.toUpperCase())
+  ) {
+    return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  }
+  return value;
+};
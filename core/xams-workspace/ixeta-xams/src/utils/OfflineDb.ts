@@ -0,0 +1,48 @@
+export const DB_NAME = "xams-offline";
+const STORE_NAME = "mutations";
+
+const openDb = (dbName: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs a single request in its own transaction, resolves once the transaction commits
+const run = async <T>(
+  dbName: string,
+  mode: IDBTransactionMode,
+  getRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> => {
+  // Outside of a browser nothing is persisted
+  if (typeof indexedDB === "undefined") {
+    return undefined;
+  }
+  const db = await openDb(dbName);
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = getRequest(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const getAllRecords = async <T>(dbName: string = DB_NAME) =>
+  ((await run<any[]>(dbName, "readonly", (store) => store.getAll())) ??
+    []) as T[];
+
+export const putRecord = async <T>(record: T, dbName: string = DB_NAME) => {
+  await run(dbName, "readwrite", (store) => store.put(record));
+};
+
+export const deleteRecord = async (id: string, dbName: string = DB_NAME) => {
+  await run(dbName, "readwrite", (store) => store.delete(id));
+};
@@ -1,6 +1,28 @@
-import { ReadRequest } from "../api/ReadRequest";
-
-export class Query {
+import {
+  AggregateFunction,
+  ReadAggregate,
+  ReadFilter,
+  ReadFilterOperator,
+  ReadRequest,
+  ReadWhereIn,
+} from "../api/ReadRequest";
+import { FieldName, JoinedFieldName } from "./FieldName";
+import {
+  ParsedFilter,
+  formatFilterValue,
+  parseFilterText,
+} from "./FilterParser";
+
+// Field names of the table and of the tables joined so far
+export type QueryFieldName<T = any, J = {}> = FieldName<T> | JoinedFieldName<J>;
+
+// A row of an aggregate query, ie: AggregateResult<typeof query>
+export type AggregateResult<Q> = Q extends Query<any, any, infer R> ? R : never;
+
+// T is the entity type of the table, J maps join aliases to their entity types,
+// R is the row of an aggregate query, the group by fields and aggregate aliases
+// Queries are immutable, every builder method returns a new query
+export class Query<T = any, J = {}, R = {}> {
   private _maxResults?: number;
   private _page: number = 1;
   private _fields: string[];
@@ -11,111 +33,398 @@ export class Query {
   private _distinct: boolean = false;
   private _denoramlize: boolean = false;
   private _except: Exclude[] = [];
-
-  constructor(fields: string[]) {
+  private _whereIn: ReadWhereIn[] = [];
+  private _aggregates: ReadAggregate[] = [];
+  private _groupBy: string[] = [];
+  private _having: Filter[] = [];
+  // Read request fields the builder doesn't set, kept from fromReadRequest
+  private _extra: Pick<ReadRequest, "id" | "countOnly" | "parameters"> = {};
+
+  constructor(fields: (FieldName<T> | "*")[]) {
     this._fields = fields;
     return this;
   }
 
+  // Parses the text printed by getStr, ie: Name == Ben AND (Type == Customer OR Type == Partner)
+  // Throws a FilterParseError with the position of the syntax error
+  static parseFilter(text: string) {
+    return toFilter(parseFilterText(text));
+  }
+
+  // Loads a stored or received read request so it can be extended
+  static fromReadRequest<T = any>(request: ReadRequest) {
+    const query = new Query<T>((request.fields ?? ["*"]) as FieldName<T>[]);
+    query._tableName = request.tableName;
+    query._page = request.page ?? 1;
+    query._maxResults = request.maxResults ?? undefined;
+    if (request.orderBy !== undefined && request.orderBy.length > 0) {
+      query._orderBy = request.orderBy.map((o) => ({
+        field: o.field,
+        order: o.order as OrderBy["order"],
+      }));
+    }
+    const filters = request.filters ?? [];
+    if (filters.length === 1 && filters[0].logicalOperator != null) {
+      query._filters = [fromJson(filters[0])];
+    } else if (filters.length > 0) {
+      // Filters next to each other are ANDed
+      query._filters = [fromJson({ logicalOperator: "AND", filters: filters })];
+    }
+    query._joins = (request.joins ?? []).map((j) => {
+      const join = new Join(
+        `${j.fromTable}.${j.fromField}`,
+        `${j.toTable}.${j.toField}`,
+        j.alias ?? null,
+        j.fields,
+        j.type
+      );
+      join.filters = copyJson(j.filters);
+      return join;
+    });
+    query._distinct = request.distinct === true;
+    query._denoramlize = request.denormalize === true;
+    query._except = (request.except ?? []).map((e) => ({
+      fromField: e.fromField,
+      query: copyJson(e.query),
+    }));
+    query._whereIn = copyJson(request.whereIn ?? []);
+    query._aggregates = (request.aggregates ?? []).map((a) => ({ ...a }));
+    query._groupBy = [...(request.groupBy ?? [])];
+    query._having = (request.having ?? []).map(fromJson);
+    query._extra = copyJson({
+      id: request.id,
+      countOnly: request.countOnly,
+      parameters: request.parameters,
+    });
+    return query;
+  }
+
+  // Reads a query from the text of encode
+  static decode<T = any>(text: string) {
+    let request: ReadRequest;
+    try {
+      request = JSON.parse(fromBase64Url(text));
+    } catch {
+      throw new Error("The encoded query is invalid.");
+    }
+    if (typeof request?.tableName !== "string") {
+      throw new Error("The encoded query is invalid.");
+    }
+    return Query.fromReadRequest<T>(request);
+  }
+
+  clone(): Query<T, J, R> {
+    const query = new Query<T, J, R>([...this._fields] as FieldName<T>[]);
+    query._maxResults = this._maxResults;
+    query._page = this._page;
+    query._tableName = this._tableName;
+    query._filters = this._filters.map((f) => f.clone());
+    query._joins = this._joins.map((j) => j.clone());
+    query._orderBy = this._orderBy?.map((o) => ({ ...o }));
+    query._distinct = this._distinct;
+    query._denoramlize = this._denoramlize;
+    query._except = this._except.map((e) => ({
+      fromField: e.fromField,
+      query: copyJson(e.query),
+    }));
+    query._whereIn = copyJson(this._whereIn);
+    query._aggregates = this._aggregates.map((a) => ({ ...a }));
+    query._groupBy = [...this._groupBy];
+    query._having = this._having.map((f) => f.clone());
+    query._extra = copyJson(this._extra);
+    return query;
+  }
+
+  private _with(change: (query: Query<T, J, R>) => void) {
+    const query = this.clone();
+    change(query);
+    return query;
+  }
+
   top(maxResults: number) {
-    this._maxResults = maxResults;
-    return this;
+    return this._with((q) => {
+      q._maxResults = maxResults;
+    });
   }
 
   page(page: number) {
-    this._page = page;
-    return this;
+    return this._with((q) => {
+      q._page = page;
+    });
   }
 
   from(tableName: string) {
-    this._tableName = tableName;
-    return this;
+    return this._with((q) => {
+      q._tableName = tableName;
+    });
   }
 
-  where(filter: Filter | string, operator?: operators, value?: any) {
-    if (filter instanceof Filter) {
-      this._filters.push(filter);
-    } else {
-      this._filters.push(exp(filter, operator, value));
-    }
-    return this;
+  where(
+    filter: Filter | QueryFieldName<T, J>,
+    operator?: operators,
+    value?: any
+  ) {
+    return this._with((q) => {
+      q._filters.push(
+        filter instanceof Filter ? filter : exp(filter, operator, value)
+      );
+    });
   }
 
-  and(filter: Filter | string, operator?: operators, value?: any) {
-    if (filter instanceof Filter) {
-      this._filters[this._filters.length - 1].and(filter);
-    } else {
-      this._filters[this._filters.length - 1].and(filter, operator, value);
-    }
-    return this;
+  and(
+    filter: Filter | QueryFieldName<T, J>,
+    operator?: operators,
+    value?: any
+  ) {
+    return this._with((q) => {
+      const last = q._filters.length - 1;
+      q._filters[last] =
+        filter instanceof Filter
+          ? q._filters[last].and(filter)
+          : q._filters[last].and(filter, operator, value);
+    });
   }
 
-  or(filter: Filter | string, operator?: operators, value?: any) {
-    if (filter instanceof Filter) {
-      this._filters[this._filters.length - 1].or(filter);
-    } else {
-      this._filters[this._filters.length - 1].or(filter, operator, value);
-    }
-    return this;
+  or(filter: Filter | QueryFieldName<T, J>, operator?: operators, value?: any) {
+    return this._with((q) => {
+      const last = q._filters.length - 1;
+      q._filters[last] =
+        filter instanceof Filter
+          ? q._filters[last].or(filter)
+          : q._filters[last].or(filter, operator, value);
+    });
   }
 
-  join(
+  // From is the table or a join alias and field, ie: User.ManagerId or manager.ManagerId
+  // Every join needs its own alias, including joins to the same table
+  // The filter is on the fields of the joined table and applies before it's joined
+  join<TJoin = any, A extends string = string>(
     from: string,
     to: string,
-    alias: string,
-    fields: string[] | null = null
+    alias: A,
+    fields: FieldName<TJoin>[] | null = null,
+    filter?: Filter
   ) {
-    this._joins.push(new Join(from, to, alias, fields, "inner"));
-    return this;
+    return this._join(
+      new Join(from, to, alias, fields, "inner"),
+      filter
+    ) as unknown as Query<T, J & { [K in A]: TJoin }, R>;
   }
 
-  leftJoin(
+  // Records without a match are kept, a filter only limits the joined records
+  leftJoin<TJoin = any, A extends string = string>(
     from: string,
     to: string,
-    alias: string,
-    fields: string[] | null = null
+    alias: A,
+    fields: FieldName<TJoin>[] | null = null,
+    filter?: Filter
   ) {
-    this._joins.push(new Join(from, to, alias, fields, "left"));
-    return this;
+    return this._join(
+      new Join(from, to, alias, fields, "left"),
+      filter
+    ) as unknown as Query<T, J & { [K in A]: TJoin }, R>;
   }
 
-  except(except: Exclude) {
-    this._except.push(except);
-    return this;
+  private _join(join: Join, filter?: Filter) {
+    if (join.alias === this._tableName) {
+      throw new Error(
+        `Join alias ${join.alias} is the table of the query, joins to the same table need another alias.`
+      );
+    }
+    if (this._joins.some((j) => j.alias === join.alias)) {
+      throw new Error(`Join alias ${join.alias} is already used.`);
+    }
+    join.filters = filter !== undefined ? [filter.getJson()] : undefined;
+    return this._with((q) => {
+      q._joins.push(join);
+    });
+  }
+
+  except(except: Exclude<T>) {
+    return this._with((q) => {
+      q._except.push(except);
+    });
   }
 
-  orderBy(field: string, order?: "asc" | "desc") {
-    if (!this._orderBy) {
-      this._orderBy = [];
+  // Only reads records where the field is in the one field the subquery selects,
+  // ie: whereIn("UserId", new Query(["UserId"]).from("TeamUser").where("TeamId", "==", teamId))
+  whereIn(field: QueryFieldName<T, J>, subQuery: Query<any, any, any>) {
+    const request = subQuery.toReadRequest();
+    if (
+      request.fields === undefined ||
+      request.fields.length !== 1 ||
+      request.fields[0] === "*"
+    ) {
+      throw new Error(
+        `whereIn requires the subquery to select one field of ${request.tableName}.`
+      );
     }
-    this._orderBy.push({ field: field, order: order });
-    return this;
+    return this._with((q) => {
+      q._whereIn.push({ fromField: field, query: request });
+    });
+  }
+
+  // Only reads records that have a record in the subquery where its toField equals the field,
+  // ie: whereExists("UserId", new Query(["*"]).from("TeamUser").where("TeamId", "==", teamId), "UserId")
+  whereExists(
+    field: QueryFieldName<T, J>,
+    subQuery: Query<any, any, any>,
+    toField: string
+  ) {
+    const request = subQuery.toReadRequest();
+    return this.whereIn(
+      field,
+      Query.fromReadRequest({ ...request, fields: [toField] })
+    );
+  }
+
+  orderBy(field: QueryFieldName<T, J>, order?: "asc" | "desc") {
+    return this._with((q) => {
+      q._orderBy = [...(q._orderBy ?? []), { field: field, order: order }];
+    });
   }
 
   distinct() {
-    this._distinct = true;
-    return this;
+    return this._with((q) => {
+      q._distinct = true;
+    });
+  }
+
+  groupBy<F extends QueryFieldName<T, J>>(...fields: F[]) {
+    return this._with((q) => {
+      q._groupBy.push(...fields);
+    }) as unknown as Query<T, J, R & { [K in F]: any }>;
+  }
+
+  // Counts the records in each group, or the records where the field isn't null
+  count<A extends string = "count">(alias?: A, field?: QueryFieldName<T, J>) {
+    return this._aggregate(
+      "count",
+      alias ?? "count",
+      field
+    ) as unknown as Query<T, J, R & { [K in A]: number }>;
+  }
+
+  sum<A extends string>(field: QueryFieldName<T, J>, alias: A) {
+    return this._aggregate("sum", alias, field) as unknown as Query<
+      T,
+      J,
+      R & { [K in A]: number | null }
+    >;
+  }
+
+  avg<A extends string>(field: QueryFieldName<T, J>, alias: A) {
+    return this._aggregate("avg", alias, field) as unknown as Query<
+      T,
+      J,
+      R & { [K in A]: number | null }
+    >;
+  }
+
+  min<A extends string>(field: QueryFieldName<T, J>, alias: A) {
+    return this._aggregate("min", alias, field) as unknown as Query<
+      T,
+      J,
+      R & { [K in A]: any }
+    >;
+  }
+
+  max<A extends string>(field: QueryFieldName<T, J>, alias: A) {
+    return this._aggregate("max", alias, field) as unknown as Query<
+      T,
+      J,
+      R & { [K in A]: any }
+    >;
+  }
+
+  // Filters the groups on the group by fields and aggregate aliases
+  having(
+    filter: Filter | Extract<keyof R, string>,
+    operator?: operators,
+    value?: any
+  ) {
+    return this._with((q) => {
+      q._having.push(
+        filter instanceof Filter ? filter : exp(filter, operator, value)
+      );
+    });
+  }
+
+  private _aggregate(
+    aggregateFunction: AggregateFunction,
+    alias: string,
+    field?: string
+  ) {
+    if (!/^[A-Za-z][A-Za-z0-9]*$/.test(alias)) {
+      throw new Error(
+        `Aggregate alias ${alias} can only contain letters and numbers.`
+      );
+    }
+    return this._with((q) => {
+      q._aggregates.push({
+        function: aggregateFunction,
+        field: field,
+        alias: alias,
+      });
+    });
   }
 
   denormalize() {
-    this._denoramlize = true;
-    return this;
+    return this._with((q) => {
+      q._denoramlize = true;
+    });
   }
 
   toReadRequest() {
     return {
       tableName: this._tableName,
-      fields: this._fields,
+      fields: [...this._fields],
       page: this._page ?? 1,
       maxResults: this._maxResults ?? null,
-      orderBy: this._orderBy ?? [],
-      filters: this._filters.length > 0 ? [this._filters[0].getJson()] : [],
-      joins: this._joins,
+      orderBy: this._orderBy?.map((o) => ({ ...o })) ?? [],
+      // Each where adds a filter, they're ANDed together
+      filters:
+        this._filters.length > 1
+          ? [
+              {
+                logicalOperator: "AND",
+                filters: this._filters.map((f) => f.getJson()),
+              },
+            ]
+          : this._filters.map((f) => f.getJson()),
+      // Copies, changing the request doesn't change the query
+      joins: this._joins.map((j) => j.clone()),
       distinct: this._distinct,
       denormalize: this._denoramlize,
-      except: this._except,
+      except: this._except.map((e) => ({
+        fromField: e.fromField,
+        query: copyJson(e.query),
+      })),
+      ...(this._whereIn.length > 0 ? { whereIn: copyJson(this._whereIn) } : {}),
+      ...(this._aggregates.length > 0 || this._groupBy.length > 0
+        ? {
+            aggregates: this._aggregates.map((a) => ({ ...a })),
+            groupBy: [...this._groupBy],
+            having: this._having.map((f) => f.getJson()),
+          }
+        : {}),
+      ...removeEmpty(this._extra),
     } as ReadRequest;
   }
+
+  // Compact URL safe text of the query, ie: to share a view in a link, Query.decode reads it back
+  encode() {
+    return toBase64Url(JSON.stringify(removeEmpty(this.toReadRequest())));
+  }
+
+  // The same for queries that read the same records, ie: for a cache key
+  toKey() {
+    return stableStringify(this.toReadRequest());
+  }
+
+  equals(other: Query<any, any, any>) {
+    return this.toKey() === other.toKey();
+  }
 }
 
 interface OrderBy {
@@ -123,8 +432,8 @@ interface OrderBy {
   order?: "asc" | "desc";
 }
 
-interface Exclude {
-  fromField: string;
+interface Exclude<T = any> {
+  fromField: FieldName<T>;
   query: ReadRequest;
 }
 
@@ -138,6 +447,7 @@ class Join {
   toTable: string;
   toField: string;
   type?: joinType;
+  filters?: ReadFilter[];
 
   constructor(
     from: string,
@@ -161,6 +471,18 @@ class Join {
     this.fields = fields ?? [];
     this.type = type;
   }
+
+  clone() {
+    const join = new Join(
+      `${this.fromTable}.${this.fromField}`,
+      `${this.toTable}.${this.toField}`,
+      this.alias,
+      [...this.fields],
+      this.type
+    );
+    join.filters = copyJson(this.filters);
+    return join;
+  }
 }
 
 class Filter {
@@ -170,7 +492,40 @@ class Filter {
 
   lastCondition?: Condition;
 
+  // Returns a new filter, this filter isn't changed
   and(field: string | Filter, operator?: operators, value?: any) {
+    const filter = this.clone();
+    filter._and(field, operator, value);
+    return filter;
+  }
+
+  // Returns a new filter, this filter isn't changed
+  or(field: string | Filter, operator?: operators, value?: any) {
+    const filter = this.clone();
+    filter._or(field, operator, value);
+    return filter;
+  }
+
+  clone(): Filter {
+    // Copied conditions by original, to point lastCondition at the copy
+    const copies = new Map<Condition, Condition>();
+    const copy = (filter: Filter) => {
+      const result = new Filter();
+      result.logicalOperator = filter.logicalOperator;
+      result.conditions = filter.conditions.map((c) => {
+        const condition = copyCondition(c);
+        copies.set(c, condition);
+        return condition;
+      });
+      result.filters = filter.filters.map(copy);
+      result.lastCondition =
+        filter.lastCondition && copies.get(filter.lastCondition);
+      return result;
+    };
+    return copy(this);
+  }
+
+  private _and(field: string | Filter, operator?: operators, value?: any) {
     if (field instanceof Filter) {
       this.filters.push(field);
     } else {
@@ -187,22 +542,14 @@ class Filter {
           filter = this.filters[this.filters.length - 1];
         }
 
-        this.lastCondition = {
-          field: field as string,
-          operator: operator,
-          value: value,
-        } as Condition;
+        this.lastCondition = toCondition(field as string, operator, value);
         filter.conditions.push(this.lastCondition);
         this.filters.push(filter);
 
         return this;
       }
 
-      this.lastCondition = {
-        field: field as string,
-        operator: operator,
-        value: value,
-      } as Condition;
+      this.lastCondition = toCondition(field as string, operator, value);
 
       this.conditions.push(this.lastCondition);
     }
@@ -210,7 +557,7 @@ class Filter {
     return this;
   }
 
-  or(field: string | Filter, operator?: operators, value?: any) {
+  private _or(field: string | Filter, operator?: operators, value?: any) {
     if (field instanceof Filter) {
       this.filters.push(field);
     } else {
@@ -223,11 +570,7 @@ class Filter {
         this.conditions = [];
       }
 
-      this.lastCondition = {
-        field: field as string,
-        operator: operator,
-        value: value,
-      } as Condition;
+      this.lastCondition = toCondition(field as string, operator, value);
 
       this.conditions.push(this.lastCondition);
     }
@@ -238,7 +581,10 @@ class Filter {
   getJson(): any {
     let json = {
       logicalOperator: this.logicalOperator,
-      filters: [...this.conditions, ...this.filters.map((x) => x.getJson())],
+      filters: [
+        ...this.conditions.map(copyCondition),
+        ...this.filters.map((x) => x.getJson()),
+      ],
     };
 
     return json;
@@ -247,7 +593,7 @@ class Filter {
   getStr(): string {
     let conditionsArray = [];
     for (let c of this.conditions) {
-      conditionsArray.push(`${c.field} ${c.operator} ${c.value}`);
+      conditionsArray.push(getConditionStr(c));
     }
     for (let f of this.filters) {
       conditionsArray.push(`(${f.getStr()})`);
@@ -265,20 +611,159 @@ interface Condition {
   field?: string;
   operator?: string;
   value?: string;
+  values?: string[];
 }
 
-type operators = "==" | "!=" | ">" | "<" | ">=" | "<=" | "Contains" | undefined;
+type operators = ReadFilterOperator | undefined;
+
+const copyCondition = (c: Condition): Condition =>
+  c.values !== undefined ? { ...c, values: [...c.values] } : { ...c };
+
+const toFilterValue = (value: any) =>
+  value instanceof Date ? value.toISOString() : String(value);
 
-export const exp = (field: string, operator: operators, value: any) => {
+// In and NotIn take an array of values, Between takes [start, end], IsNull and IsNotNull don't take a value
+const toCondition = (
+  field: string,
+  operator: operators,
+  value: any
+): Condition => {
+  if (operator === "In" || operator === "NotIn" || operator === "Between") {
+    if (!Array.isArray(value)) {
+      throw new Error(`${operator} requires an array of values for ${field}.`);
+    }
+    if (operator === "Between" && value.length !== 2) {
+      throw new Error(`Between requires a start and end value for ${field}.`);
+    }
+    return {
+      field: field,
+      operator: operator,
+      values: value.map(toFilterValue),
+    };
+  }
+  if (operator === "IsNull" || operator === "IsNotNull") {
+    return { field: field, operator: operator };
+  }
+  return { field: field, operator: operator, value: value };
+};
+
+const getConditionStr = (c: Condition) => {
+  switch (c.operator) {
+    case "In":
+    case "NotIn":
+      return `${c.field} ${c.operator} (${(c.values ?? [])
+        .map((v) => formatFilterValue(v))
+        .join(", ")})`;
+    case "Between":
+      return `${c.field} Between ${formatFilterValue(
+        c.values?.[0]
+      )} AND ${formatFilterValue(c.values?.[1])}`;
+    case "IsNull":
+    case "IsNotNull":
+      return `${c.field} ${c.operator}`;
+    default:
+      return `${c.field} ${c.operator} ${formatFilterValue(c.value)}`;
+  }
+};
+
+const toFilter = (parsed: ParsedFilter): Filter => {
+  const filter = new Filter();
+  filter.logicalOperator = parsed.logicalOperator;
+  filter.conditions = parsed.conditions.map((c) =>
+    toCondition(c.field, c.operator, c.value)
+  );
+  filter.filters = parsed.filters.map(toFilter);
+  filter.lastCondition = filter.conditions[filter.conditions.length - 1];
+  return filter;
+};
+
+// Read filters are conditions or groups with a logical operator
+const fromJson = (json: ReadFilter): Filter => {
+  const filter = new Filter();
+  filter.logicalOperator = ["OR", "||"].includes(
+    (json.logicalOperator ?? "").toUpperCase()
+  )
+    ? "OR"
+    : "AND";
+  for (const f of json.filters ?? []) {
+    if (f.logicalOperator != null) {
+      filter.filters.push(fromJson(f));
+    } else {
+      const condition: Condition = { field: f.field, operator: f.operator };
+      if (f.values != null) {
+        condition.values = [...f.values];
+      } else if (f.value != null) {
+        condition.value = f.value;
+      }
+      filter.conditions.push(condition);
+    }
+  }
+  filter.lastCondition = filter.conditions[filter.conditions.length - 1];
+  return filter;
+};
+
+const copyJson = <V>(value: V): V =>
+  value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+// Drops top level fields that are the read request defaults
+const removeEmpty = (request: any) => {
+  const result: any = {};
+  for (const key in request) {
+    const value = request[key];
+    if (
+      value == null ||
+      value === false ||
+      (Array.isArray(value) && value.length === 0) ||
+      (key === "page" && value === 1)
+    ) {
+      continue;
+    }
+    result[key] = value;
+  }
+  return result;
+};
+
+// JSON with object keys sorted, so the same values give the same text
+const stableStringify = (value: any) =>
+  JSON.stringify(value, (_, v) =>
+    v !== null && typeof v === "object" && !Array.isArray(v)
+      ? Object.keys(v)
+          .sort()
+          .reduce((sorted: any, key) => {
+            sorted[key] = v[key];
+            return sorted;
+          }, {})
+      : v
+  );
+
+const toBase64Url = (text: string) => {
+  let binary = "";
+  new TextEncoder().encode(text).forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (c) => c.charCodeAt(0))
+  );
+};
+
+export const exp = <T = any>(
+  field: QueryFieldName<T>,
+  operator: operators,
+  value?: any
+) => {
   let filter = new Filter();
   filter.logicalOperator = "AND";
 
   filter.conditions = [];
-  filter.conditions.push({
-    field: field,
-    operator: operator,
-    value: value,
-  });
+  filter.conditions.push(toCondition(field, operator, value));
 
   return filter;
 };
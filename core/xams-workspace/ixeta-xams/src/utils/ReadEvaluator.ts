@@ -0,0 +1,696 @@
+import { MetadataField, MetadataResponse } from "../api/MetadataResponse";
+import {
+  AggregateFunction,
+  ReadFilter,
+  ReadJoin,
+  ReadRequest,
+} from "../api/ReadRequest";
+import { ReadResponse } from "../api/ReadResponse";
+import { Query } from "./Query";
+
+export type RecordTables = { [tableName: string]: any[] };
+
+// A result row before it's projected, the root record and the record of each join alias
+interface Row {
+  record: any; // The root record as it was given
+  root: any;
+  aliases: { [alias: string]: any | null };
+}
+
+interface ReadContext {
+  metadata: MetadataResponse[];
+  tables: RecordTables;
+  uiInfo?: (tableName: string) => { canDelete: boolean; canUpdate: boolean };
+  keepRecords?: boolean; // Results are the matching records instead of their selected fields
+}
+
+const NUMBER_TYPES = ["Single", "Int16", "Int32", "Int64", "Double", "Decimal"];
+
+// The user's utc offset the server takes off dates, ie: ~-5
+const DATE_OFFSET = /~[-+]+[0-9][0-9]?/;
+
+export const getTableMetadata = (
+  metadata: MetadataResponse[],
+  tableName: string
+) => {
+  const tableMetadata = metadata.find((m) => m.tableName === tableName);
+  if (tableMetadata === undefined) {
+    throw new Error(`Table ${tableName} not found.`);
+  }
+  return tableMetadata;
+};
+
+export const getPrimaryKey = (tableMetadata: MetadataResponse) =>
+  tableMetadata.primaryKey ?? `${tableMetadata.tableName}Id`;
+
+// The record with the name of each lookup, ie: RoleId and Role
+export const withLookupNames = (
+  context: Pick<ReadContext, "metadata" | "tables">,
+  tableName: string,
+  record: any
+) => {
+  const tableMetadata = getTableMetadata(context.metadata, tableName);
+  const result = { ...record };
+  for (const field of tableMetadata.fields) {
+    if (field.type !== "Lookup" || !field.lookupName) {
+      continue;
+    }
+    const value = record[field.name];
+    const lookupMetadata = context.metadata.find(
+      (m) => m.tableName === field.lookupTable
+    );
+    const lookupRecords = context.tables[field.lookupTable];
+    // Records read from the server already have the lookup name
+    if (lookupRecords === undefined) {
+      continue;
+    }
+    const lookupRecord =
+      value == null || lookupMetadata === undefined
+        ? undefined
+        : lookupRecords.find((r) => r[getPrimaryKey(lookupMetadata)] === value);
+    result[field.lookupName] =
+      lookupRecord?.[field.lookupTableNameField] ?? null;
+  }
+  return result;
+};
+
+const compare = (a: any, b: any) => {
+  if (a == null && b == null) {
+    return 0;
+  }
+  if (a == null) {
+    return -1;
+  }
+  if (b == null) {
+    return 1;
+  }
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+};
+
+// Converts the filter's string value to the type of the field
+const parseValue = (field: MetadataField | undefined, value: string) => {
+  if (field === undefined) {
+    return value;
+  }
+  if (NUMBER_TYPES.includes(field.type)) {
+    return Number(value);
+  }
+  if (field.type === "Boolean") {
+    return value.toLowerCase() === "true";
+  }
+  if (field.type === "DateTime") {
+    return Date.parse(value.replace(DATE_OFFSET, ""));
+  }
+  return value;
+};
+
+// Record values are converted too, ie: for numbers and dates that were kept as strings
+const getFieldValue = (field: MetadataField | undefined, value: any) => {
+  if (field === undefined || value == null) {
+    return value;
+  }
+  if (field.type === "DateTime") {
+    return value instanceof Date ? value.getTime() : Date.parse(value);
+  }
+  if (NUMBER_TYPES.includes(field.type) && typeof value === "string") {
+    return Number(value);
+  }
+  if (field.type === "Boolean" && typeof value === "string") {
+    return value.toLowerCase() === "true";
+  }
+  return value;
+};
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+type DatePart = { part: "year" | "month" | "day"; value: number };
+
+// Like the server, a date value of years, days and month names, ie: 2024 or March 5, compares those parts
+const getDateParts = (value: string): DatePart[] | null => {
+  const parts: DatePart[] = [];
+  for (const text of value.replace(DATE_OFFSET, "").split(" ")) {
+    if (text === "") {
+      continue;
+    }
+    if (/^\d{4}$/.test(text)) {
+      parts.push({ part: "year", value: Number(text) });
+    } else if (/^\d{1,2}$/.test(text)) {
+      parts.push({ part: "day", value: Number(text) });
+    } else if (/^[A-Za-z]+$/.test(text)) {
+      const month = MONTHS.findIndex((m) => m.includes(text));
+      if (month !== -1) {
+        parts.push({ part: "month", value: month + 1 });
+      }
+    } else {
+      return null;
+    }
+  }
+  return parts.length > 0 ? parts : null;
+};
+
+const getDatePart = (time: number, part: DatePart["part"]) => {
+  const date = new Date(time);
+  return part === "year"
+    ? date.getUTCFullYear()
+    : part === "month"
+    ? date.getUTCMonth() + 1
+    : date.getUTCDate();
+};
+
+const COMPARISON_OPERATORS = ["==", "!=", ">", "<", ">=", "<="];
+
+const compareWith = (operator: string, actual: any, value: any) => {
+  switch (operator) {
+    case "==":
+      return actual === value;
+    case "!=":
+      return actual !== value;
+    case ">":
+      return actual != null && compare(actual, value) > 0;
+    case "<":
+      return actual != null && compare(actual, value) < 0;
+    case ">=":
+      return actual != null && compare(actual, value) >= 0;
+    default:
+      return actual != null && compare(actual, value) <= 0;
+  }
+};
+
+const matchesCondition = (
+  filter: ReadFilter,
+  field: MetadataField | undefined,
+  recordValue: any
+) => {
+  const operator = filter.operator ?? "";
+  if (operator === "IsNull" || operator === "IsNotNull") {
+    return operator === "IsNull" ? recordValue == null : recordValue != null;
+  }
+  const filterValue = String(filter.value);
+  if (filterValue.trim().toLowerCase() === "null") {
+    return operator === "!=" ? recordValue != null : recordValue == null;
+  }
+  const isString =
+    field === undefined || field.type === "String" || field.type === "Char";
+  // Strings default to a case insensitive contains, like the server's database collation
+  if (isString && (operator === "" || operator.toLowerCase() === "contains")) {
+    return (
+      recordValue != null &&
+      String(recordValue).toLowerCase().includes(filterValue.toLowerCase())
+    );
+  }
+  const comparison = operator === "" ? "==" : operator;
+  if (field?.type === "DateTime" && COMPARISON_OPERATORS.includes(comparison)) {
+    const parts = getDateParts(filterValue);
+    if (parts !== null) {
+      const time = getFieldValue(field, recordValue);
+      return (
+        time != null &&
+        parts.every((p) =>
+          compareWith(comparison, getDatePart(time, p.part), p.value)
+        )
+      );
+    }
+  }
+  const isText = isString || field?.type === "Guid" || field?.type === "Lookup";
+  const toValue = (v: string) => {
+    const value = parseValue(field, v);
+    return isText ? String(value).toLowerCase() : value;
+  };
+  let value = toValue(filterValue);
+  let actual = getFieldValue(field, recordValue);
+  if (isText) {
+    actual = actual == null ? actual : String(actual).toLowerCase();
+  }
+  switch (comparison) {
+    case "In":
+      return (filter.values ?? []).some((v) => actual === toValue(v));
+    case "NotIn":
+      return !(filter.values ?? []).some((v) => actual === toValue(v));
+    case "Between": {
+      const [start, end] = (filter.values ?? []).map(toValue);
+      return (
+        actual != null &&
+        compare(actual, start) >= 0 &&
+        compare(actual, end) <= 0
+      );
+    }
+    case "StartsWith":
+      return actual != null && String(actual).startsWith(String(value));
+    case "EndsWith":
+      return actual != null && String(actual).endsWith(String(value));
+    case "EqualsIgnoreCase":
+      return (
+        actual != null &&
+        String(actual).toLowerCase() === String(value).toLowerCase()
+      );
+    case "==":
+    case "!=":
+    case ">":
+    case "<":
+    case ">=":
+    case "<=":
+      return compareWith(comparison, actual, value);
+    default:
+      throw new Error(`Invalid operator ${filter.operator}.`);
+  }
+};
+
+const aggregate = (aggregateFunction: AggregateFunction, values: any[]) => {
+  const present = values.filter((v) => v != null);
+  switch (aggregateFunction) {
+    case "count":
+      return present.length;
+    case "sum":
+      return present.reduce((total, v) => total + Number(v), 0);
+    case "avg":
+      return present.length === 0
+        ? null
+        : present.reduce((total, v) => total + Number(v), 0) / present.length;
+    case "min":
+    case "max": {
+      const direction = aggregateFunction === "min" ? 1 : -1;
+      return present.length === 0
+        ? null
+        : present.reduce((a, b) => (compare(a, b) * direction <= 0 ? a : b));
+    }
+    default:
+      throw new Error(`Invalid aggregate function ${aggregateFunction}.`);
+  }
+};
+
+const createReader = (context: ReadContext, request: ReadRequest) => {
+  const aliasTables: { [alias: string]: string } = {};
+  for (const join of request.joins ?? []) {
+    aliasTables[join.alias || join.toTable] = join.toTable;
+  }
+
+  const resolve = (row: Row, fieldName: string) => {
+    const parts = fieldName.split(".");
+    if (parts.length > 1 && aliasTables[parts[0]] !== undefined) {
+      const field = getTableMetadata(
+        context.metadata,
+        aliasTables[parts[0]]
+      ).fields.find((f) => f.name === parts[1]);
+      // Without the joined table's records, records read with the join have alias.field values
+      return {
+        field,
+        value:
+          parts[0] in row.aliases
+            ? row.aliases[parts[0]]?.[parts[1]]
+            : row.root[fieldName],
+      };
+    }
+    const field = getTableMetadata(
+      context.metadata,
+      request.tableName
+    ).fields.find((f) => f.name === fieldName);
+    return { field, value: row.root[fieldName] };
+  };
+
+  // Conditions are and'ed unless grouped under a logical operator
+  const matches = (
+    row: Row,
+    filters: ReadFilter[],
+    logicalOperator: string = "AND"
+  ): boolean => {
+    const results: boolean[] = [];
+    for (const filter of filters as (ReadFilter & {
+      logicalOperator?: string;
+      filters?: ReadFilter[];
+    })[]) {
+      if (filter.logicalOperator != null && filter.logicalOperator !== "") {
+        results.push(
+          matches(row, filter.filters ?? [], filter.logicalOperator)
+        );
+        continue;
+      }
+      // Like the server, conditions without a field or value are ignored
+      if (
+        !filter.field ||
+        ((filter.value == null || filter.value === "") &&
+          filter.values == null &&
+          filter.operator !== "IsNull" &&
+          filter.operator !== "IsNotNull")
+      ) {
+        continue;
+      }
+      const { field, value } = resolve(row, filter.field);
+      results.push(matchesCondition(filter, field, value));
+    }
+    const isOr = ["OR", "||"].includes(logicalOperator.toUpperCase());
+    return isOr
+      ? results.length === 0 || results.some((r) => r)
+      : results.every((r) => r);
+  };
+
+  const join = (rows: Row[], join: ReadJoin) => {
+    const alias = join.alias || join.toTable;
+    // Join filters are on the fields of the joined table
+    const joinReader = createReader(context, {
+      tableName: join.toTable,
+      fields: join.fields,
+    });
+    const joinRecords = (context.tables[join.toTable] ?? [])
+      .map((r) => withLookupNames(context, join.toTable, r))
+      .filter((r) =>
+        joinReader.matches(
+          { record: r, root: r, aliases: {} },
+          join.filters ?? [],
+          "AND"
+        )
+      );
+    const results: Row[] = [];
+    for (const row of rows) {
+      const fromValue =
+        aliasTables[join.fromTable] !== undefined &&
+        join.fromTable !== request.tableName
+          ? row.aliases[join.fromTable]?.[join.fromField]
+          : row.root[join.fromField];
+      const related = joinRecords.filter(
+        (r) => fromValue != null && r[join.toField] === fromValue
+      );
+      if (related.length === 0 && join.type === "left") {
+        results.push({ ...row, aliases: { ...row.aliases, [alias]: null } });
+      }
+      for (const record of related) {
+        results.push({
+          ...row,
+          aliases: { ...row.aliases, [alias]: record },
+        });
+      }
+    }
+    return results;
+  };
+
+  const project = (row: Row) => {
+    const result: any = {};
+    const addFields = (
+      record: any,
+      tableName: string,
+      fields: string[],
+      prefix: string
+    ) => {
+      const metadata = getTableMetadata(context.metadata, tableName);
+      const fieldNames = fields.includes("*")
+        ? metadata.fields.flatMap((f) =>
+            f.type === "Lookup" && f.lookupName
+              ? [f.name, f.lookupName]
+              : f.name
+          )
+        : fields.flatMap((name) => {
+            const field = metadata.fields.find((f) => f.name === name);
+            return field?.type === "Lookup" && field.lookupName
+              ? [name, field.lookupName]
+              : [name];
+          });
+      for (const name of fieldNames) {
+        result[`${prefix}${name}`] = record?.[name] ?? null;
+      }
+    };
+    addFields(row.root, request.tableName, request.fields ?? ["*"], "");
+    for (const join of request.joins ?? []) {
+      const alias = join.alias || join.toTable;
+      addFields(row.aliases[alias], join.toTable, join.fields, `${alias}.`);
+    }
+    if (context.uiInfo !== undefined) {
+      result._ui_info_ = context.uiInfo(request.tableName);
+    }
+    return result;
+  };
+
+  // The given record with the fields of the joins that were read
+  const record = (row: Row) => {
+    const joinFields = Object.entries(project(row)).filter(
+      ([name]) => name.includes(".") && name.split(".")[0] in row.aliases
+    );
+    return joinFields.length === 0
+      ? row.record
+      : { ...row.record, ...Object.fromEntries(joinFields) };
+  };
+
+  // Groups the rows like the server, each result has the group by fields and the aggregate aliases
+  const group = (rows: Row[]) => {
+    const groupBy = request.groupBy ?? [];
+    const groups = new Map<string, Row[]>();
+    for (const row of rows) {
+      const key = JSON.stringify(groupBy.map((f) => resolve(row, f).value));
+      groups.set(key, [...(groups.get(key) ?? []), row]);
+    }
+    // The type of each result field, to compare the having values
+    const fields: { [name: string]: MetadataField | undefined } = {};
+    const results = Array.from(groups.values()).map((groupRows) => {
+      const result: any = {};
+      for (const field of groupBy) {
+        const resolved = resolve(groupRows[0], field);
+        result[field] = resolved.value ?? null;
+        fields[field] = resolved.field;
+      }
+      for (const a of request.aggregates ?? []) {
+        fields[a.alias] = { name: a.alias, type: "Decimal" } as MetadataField;
+        if (a.field == null) {
+          if (a.function !== "count") {
+            throw new Error(`Aggregate ${a.alias} requires a field.`);
+          }
+          result[a.alias] = groupRows.length;
+          continue;
+        }
+        const field = a.field;
+        result[a.alias] = aggregate(
+          a.function,
+          groupRows.map((r) => resolve(r, field).value)
+        );
+        if (a.function === "min" || a.function === "max") {
+          fields[a.alias] = resolve(groupRows[0], field).field;
+        }
+      }
+      return result;
+    });
+
+    const havingMatches = (
+      result: any,
+      filters: ReadFilter[],
+      logicalOperator: string
+    ): boolean => {
+      const matched = (
+        filters as (ReadFilter & {
+          logicalOperator?: string;
+          filters?: ReadFilter[];
+        })[]
+      ).map((filter) =>
+        filter.logicalOperator != null && filter.logicalOperator !== ""
+          ? havingMatches(result, filter.filters ?? [], filter.logicalOperator)
+          : // Like the server, conditions without a field or value are ignored
+            !filter.field ||
+            ((filter.value == null || filter.value === "") &&
+              filter.operator !== "IsNull" &&
+              filter.operator !== "IsNotNull") ||
+            matchesCondition(filter, fields[filter.field], result[filter.field])
+      );
+      return ["OR", "||"].includes(logicalOperator.toUpperCase())
+        ? matched.length === 0 || matched.some((r) => r)
+        : matched.every((r) => r);
+    };
+    return results.filter((r) => havingMatches(r, request.having ?? [], "AND"));
+  };
+
+  return { matches, join, project, record, resolve, group };
+};
+
+// Runs a read against the tables the same way the Xams server does
+export const readRecords = <T>(
+  context: ReadContext,
+  request: ReadRequest
+): ReadResponse<T> => {
+  const tableMetadata = getTableMetadata(context.metadata, request.tableName);
+  const primaryKey = getPrimaryKey(tableMetadata);
+  const reader = createReader(context, request);
+
+  let rows: Row[] = (context.tables[request.tableName] ?? []).map((r) => ({
+    record: r,
+    root: withLookupNames(context, request.tableName, r),
+    aliases: {},
+  }));
+  for (const join of request.joins ?? []) {
+    if (context.tables[join.toTable] !== undefined) {
+      rows = reader.join(rows, join);
+    }
+  }
+  if (request.id != null) {
+    rows = rows.filter((r) => r.root[primaryKey] === request.id);
+  }
+  rows = rows.filter((r) => reader.matches(r, request.filters ?? []));
+
+  // The values of the one field selected by an except or whereIn query
+  const subqueryValues = (query: ReadRequest) => {
+    const field = query.fields?.[0] ?? "*";
+    return readRecords<any>(context, {
+      ...query,
+      page: 1,
+      maxResults: undefined,
+    }).results.map((r) =>
+      field === "*"
+        ? r[getPrimaryKey(getTableMetadata(context.metadata, query.tableName))]
+        : r[field]
+    );
+  };
+  for (const except of request.except ?? []) {
+    const excluded = subqueryValues(except.query);
+    rows = rows.filter(
+      (r) => !excluded.includes(reader.resolve(r, except.fromField).value)
+    );
+  }
+  for (const whereIn of request.whereIn ?? []) {
+    const included = subqueryValues(whereIn.query);
+    rows = rows.filter((r) =>
+      included.includes(reader.resolve(r, whereIn.fromField).value)
+    );
+  }
+
+  if (request.countOnly === true) {
+    return {
+      pages: rows.length,
+      currentPage: 1,
+      totalResults: rows.length,
+      maxResults: 1,
+      tableName: request.tableName,
+      orderBy: request.orderBy,
+      results: [],
+    };
+  }
+
+  const isAggregate =
+    (request.aggregates ?? []).length > 0 || (request.groupBy ?? []).length > 0;
+  for (const orderBy of isAggregate
+    ? []
+    : [...(request.orderBy ?? [])].reverse()) {
+    const direction = orderBy.order?.toLowerCase() === "desc" ? -1 : 1;
+    const sortValue = (row: Row) => {
+      const { field, value } = reader.resolve(row, orderBy.field);
+      return getFieldValue(field, value);
+    };
+    rows = [...rows].sort(
+      (a, b) => compare(sortValue(a), sortValue(b)) * direction
+    );
+  }
+
+  if (request.distinct === true && !isAggregate) {
+    const keys = new Set<string>();
+    rows = rows.filter((r) => {
+      // The selected fields compared by the type of the field
+      const key = JSON.stringify(
+        Object.keys(reader.project(r))
+          .filter((name) => name !== "_ui_info_")
+          .map((name) => {
+            const { field, value } = reader.resolve(r, name);
+            return getFieldValue(field, value ?? null);
+          })
+      );
+      if (keys.has(key)) {
+        return false;
+      }
+      keys.add(key);
+      return true;
+    });
+  }
+
+  let results = isAggregate
+    ? reader.group(rows)
+    : rows.map((r) =>
+        context.keepRecords === true ? reader.record(r) : reader.project(r)
+      );
+  if (isAggregate) {
+    // Groups are ordered by their group by fields and aggregate aliases
+    for (const orderBy of [...(request.orderBy ?? [])].reverse()) {
+      const direction = orderBy.order?.toLowerCase() === "desc" ? -1 : 1;
+      results = [...results].sort(
+        (a, b) => compare(a[orderBy.field], b[orderBy.field]) * direction
+      );
+    }
+  }
+  const page = request.page ?? 1;
+  const maxResults =
+    request.maxResults != null && request.maxResults > 0
+      ? request.maxResults
+      : Math.max(results.length, 1);
+  return {
+    pages: Math.ceil(results.length / maxResults),
+    currentPage: page,
+    totalResults: results.length,
+    maxResults: maxResults,
+    tableName: request.tableName,
+    orderBy: request.orderBy,
+    results: results.slice((page - 1) * maxResults, page * maxResults),
+  };
+};
+
+export interface EvaluateReadOptions {
+  metadata: MetadataResponse | MetadataResponse[]; // Of the table and its joined, except and whereIn tables
+  // Records of the joined, except and whereIn tables, without a joined table's records
+  // the alias.field values of records read with the join are used
+  tables?: RecordTables;
+}
+
+const getSubqueryTables = (request: ReadRequest): string[] =>
+  [...(request.except ?? []), ...(request.whereIn ?? [])].flatMap((s) => [
+    s.query.tableName,
+    ...getSubqueryTables(s.query),
+  ]);
+
+// Reads the records in memory the same way the Xams server does, ie: to update loaded records
+// without a round trip, the results are the matching records or the groups of an aggregate read
+export const evaluateRead = <T = any>(
+  records: T[],
+  request: ReadRequest | Query<any, any, any>,
+  options: EvaluateReadOptions
+): ReadResponse<T> => {
+  const readRequest =
+    request instanceof Query ? request.toReadRequest() : request;
+  const tables = { ...options.tables, [readRequest.tableName]: records };
+  for (const tableName of getSubqueryTables(readRequest)) {
+    if (tables[tableName] === undefined) {
+      throw new Error(
+        `The records of ${tableName} are needed for except and whereIn.`
+      );
+    }
+  }
+  return readRecords<T>(
+    {
+      metadata: Array.isArray(options.metadata)
+        ? options.metadata
+        : [options.metadata],
+      tables: tables,
+      keepRecords: true,
+    },
+    readRequest
+  );
+};
+
+// Whether the record matches the id, filters, search, except and whereIn of a read, ie: a DataTable's getReadRequest
+export const matchesRead = (
+  record: any,
+  request: ReadRequest | Query<any, any, any>,
+  options: EvaluateReadOptions
+) => {
+  const readRequest =
+    request instanceof Query ? request.toReadRequest() : request;
+  return (
+    evaluateRead([record], { ...readRequest, countOnly: true }, options)
+      .totalResults > 0
+  );
+};
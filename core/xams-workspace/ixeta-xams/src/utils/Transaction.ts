@@ -0,0 +1,211 @@
+import { v4 as uuidv4 } from "uuid";
+import { BulkRequest } from "../api/BulkRequest";
+import { Request } from "../api/Request";
+
+// Stands in for the id of a record created earlier in the transaction
+export class TempId {
+  readonly key: string;
+  readonly tableName: string;
+  readonly id: string; // The id the record is created with
+
+  constructor(key: string, tableName: string, id: string) {
+    this.key = key;
+    this.tableName = tableName;
+    this.id = id;
+  }
+}
+
+// Any field can be set to the TempId of an earlier create, ie: { OrderId: order }
+export type TransactionFields<T = any> = {
+  [K in keyof T]?: T[K] | TempId;
+};
+
+export interface TransactionOptions {
+  tempId?: string; // Key of the created record in the results, defaults to TableName_1, TableName_2...
+  parameters?: any;
+}
+
+// Primary key field by table name, tables that aren't listed use TableNameId
+export type PrimaryKeys = { [tableName: string]: string };
+
+type Operation = "creates" | "updates" | "deletes" | "upserts";
+
+interface TransactionStep {
+  operation: Operation;
+  tableName: string;
+  fields: TransactionFields;
+  parameters?: any;
+  id?: string | TempId; // Set as the primary key of creates and deletes once the key is known
+}
+
+// Created records keyed by temp id
+export type TransactionResult = { [tempId: string]: any };
+
+// Builds a BulkRequest where later operations can reference records created earlier,
+// the server runs every operation in a single database transaction, creates before updates and deletes
+export class Transaction {
+  private _steps: TransactionStep[] = [];
+  private _tempIds: TempId[] = [];
+  private _primaryKeys: PrimaryKeys;
+
+  // XamsClient.transaction reads the primary keys from metadata, set them to build requests without it,
+  // or to create a record with its own id in a table with a custom primary key
+  constructor(options?: { primaryKeys?: PrimaryKeys }) {
+    this._primaryKeys = options?.primaryKeys ?? {};
+  }
+
+  create<T = any>(
+    tableName: string,
+    fields: TransactionFields<T>,
+    options?: TransactionOptions
+  ) {
+    this._checkReferences(fields);
+    const primaryKey = this._getPrimaryKey(tableName);
+    const key =
+      options?.tempId ??
+      `${tableName}_${
+        this._tempIds.filter((t) => t.tableName === tableName).length + 1
+      }`;
+    if (this._tempIds.some((t) => t.key === key)) {
+      throw new Error(`Temp id ${key} is already used in this transaction.`);
+    }
+    // The id is assigned up front so later operations can reference it
+    const existingId = (fields as any)[primaryKey];
+    const tempId = new TempId(
+      key,
+      tableName,
+      typeof existingId === "string" && existingId !== ""
+        ? existingId
+        : uuidv4()
+    );
+    this._tempIds.push(tempId);
+    const createFields: TransactionFields = { ...fields };
+    delete createFields[primaryKey];
+    this._steps.push({
+      operation: "creates",
+      tableName: tableName,
+      fields: createFields,
+      parameters: options?.parameters,
+      id: tempId,
+    });
+    return tempId;
+  }
+
+  update<T = any>(
+    tableName: string,
+    fields: TransactionFields<T>,
+    parameters?: any
+  ) {
+    this._add("updates", tableName, fields, parameters);
+    return this;
+  }
+
+  upsert<T = any>(
+    tableName: string,
+    fields: TransactionFields<T>,
+    parameters?: any
+  ) {
+    this._add("upserts", tableName, fields, parameters);
+    return this;
+  }
+
+  delete(tableName: string, id: string | TempId, parameters?: any) {
+    this._checkReferences({ id });
+    this._steps.push({
+      operation: "deletes",
+      tableName: tableName,
+      fields: {},
+      parameters: parameters,
+      id: id,
+    });
+    return this;
+  }
+
+  get tempIds() {
+    return [...this._tempIds];
+  }
+
+  // Every table the transaction changes
+  get tableNames() {
+    return Array.from(new Set(this._steps.map((s) => s.tableName)));
+  }
+
+  private _getPrimaryKey(tableName: string, primaryKeys?: PrimaryKeys) {
+    return (
+      primaryKeys?.[tableName] ??
+      this._primaryKeys[tableName] ??
+      `${tableName}Id`
+    );
+  }
+
+  // References must be to records created earlier in this transaction
+  private _checkReferences(fields: TransactionFields) {
+    for (const key in fields) {
+      const value = fields[key];
+      if (value instanceof TempId && !this._tempIds.includes(value)) {
+        throw new Error(
+          `${key} references ${value.key} which isn't created in this transaction.`
+        );
+      }
+    }
+  }
+
+  private _add(
+    operation: Operation,
+    tableName: string,
+    fields: TransactionFields,
+    parameters?: any
+  ) {
+    this._checkReferences(fields);
+    this._steps.push({
+      operation: operation,
+      tableName: tableName,
+      fields: fields,
+      parameters: parameters,
+    });
+  }
+
+  toBulkRequest(primaryKeys?: PrimaryKeys): BulkRequest {
+    const request: BulkRequest = {};
+    for (const step of this._steps) {
+      const fields: any = {};
+      for (const key in step.fields) {
+        const value = step.fields[key];
+        fields[key] = value instanceof TempId ? value.id : value;
+      }
+      if (step.id !== undefined) {
+        fields[this._getPrimaryKey(step.tableName, primaryKeys)] =
+          step.id instanceof TempId ? step.id.id : step.id;
+      }
+      const stepRequest: Request = {
+        tableName: step.tableName,
+        fields: fields,
+        parameters: step.parameters,
+      };
+      request[step.operation] = [
+        ...(request[step.operation] ?? []),
+        stepRequest,
+      ];
+    }
+    return request;
+  }
+
+  // Maps the records returned by the bulk request to their temp ids
+  getResult(
+    records: any[] | null | undefined,
+    primaryKeys?: PrimaryKeys
+  ): TransactionResult {
+    const result: TransactionResult = {};
+    for (const tempId of this._tempIds) {
+      const primaryKey = this._getPrimaryKey(tempId.tableName, primaryKeys);
+      result[tempId.key] =
+        (records ?? []).find(
+          (r) =>
+            String(r?.[primaryKey]).toLowerCase() === tempId.id.toLowerCase()
+        ) ?? null;
+    }
+    return result;
+  }
+}
+
+export default Transaction;
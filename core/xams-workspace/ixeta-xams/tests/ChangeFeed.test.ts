@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  EntityChange,
+  createChangeFeed,
+  readEventStream,
+} from "../src/api/ChangeFeed";
+import { MetadataResponse } from "../src/api/MetadataResponse";
+import { XamsClient } from "../src/api/XamsClient";
+import { MockXamsServer } from "../src/mock/MockXamsServer";
+import { field } from "./metadata";
+
+const metadata: MetadataResponse[] = [
+  {
+    tableName: "Widget",
+    displayName: "Widget",
+    primaryKey: "WidgetId",
+    fields: [field("WidgetId", "Guid"), field("Name", "String")],
+  },
+];
+
+const stream = (...chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start: (controller) => {
+      for (const chunk of chunks) {
+        controller.enqueue(new TextEncoder().encode(chunk));
+      }
+      controller.close();
+    },
+  });
+
+describe("readEventStream", () => {
+  it("reads the data of each event across chunks", async () => {
+    const onData = vi.fn();
+    await readEventStream(
+      stream(
+        ": connected\n\nda",
+        'ta: {"a":1}\n\n',
+        "data: x\r\ndata:y\r\n\r\n"
+      ),
+      onData
+    );
+    expect(onData.mock.calls).toEqual([['{"a":1}'], ["x\ny"]]);
+  });
+});
+
+describe("createChangeFeed", () => {
+  let server: MockXamsServer;
+  let client: XamsClient;
+  let restore: () => void;
+
+  beforeEach(() => {
+    server = new MockXamsServer({
+      metadata,
+      data: { Widget: [{ WidgetId: "w1", Name: "Bolt" }] },
+    });
+    restore = server.install();
+    client = new XamsClient({ apiUrl: "https://api" });
+  });
+
+  afterEach(() => {
+    restore();
+    vi.restoreAllMocks();
+  });
+
+  it("sends changes to the subscribers of the table and record", async () => {
+    const connect = vi.fn(client.changes);
+    const feed = createChangeFeed(connect);
+    const table = vi.fn();
+    const record = vi.fn();
+    const unsubscribeTable = feed.subscribe("widget", table);
+    const unsubscribeRecord = feed.subscribe("Widget", record, "W1");
+    await vi.waitFor(() => expect(connect).toHaveBeenCalledTimes(1));
+
+    await vi.waitFor(async () => {
+      await client.update("Widget", { WidgetId: "w1", Name: "Nut" });
+      expect(record).toHaveBeenCalled();
+    });
+    const created = await client.create<any>("Widget", { Name: "Screw" });
+    await vi.waitFor(() =>
+      expect(table).toHaveBeenCalledWith<[EntityChange]>({
+        tableName: "Widget",
+        id: created.data.WidgetId,
+        operation: "CREATE",
+      })
+    );
+    expect(record.mock.calls.map((c) => c[0].id)).not.toContain(
+      created.data.WidgetId
+    );
+    // Both subscribers share one connection
+    expect(connect).toHaveBeenCalledTimes(1);
+
+    unsubscribeTable();
+    unsubscribeRecord();
+    expect(connect.mock.calls[0][0].signal?.aborted).toBe(true);
+  });
+
+  it("reconnects when the stream closes", async () => {
+    const connect = vi.fn(client.changes);
+    const feed = createChangeFeed(connect, { reconnectDelayMs: 1 });
+    const listener = vi.fn();
+    const unsubscribe = feed.subscribe("Widget", listener);
+    await vi.waitFor(() => expect(connect).toHaveBeenCalledTimes(1));
+
+    server.closeChangeStreams();
+    await vi.waitFor(() => expect(connect).toHaveBeenCalledTimes(2));
+    await vi.waitFor(() => {
+      server.publishChanges([
+        { tableName: "Widget", id: "w1", operation: "DELETE" },
+      ]);
+      expect(listener).toHaveBeenCalled();
+    });
+    unsubscribe();
+  });
+
+  it("keeps calling the other listeners when one throws", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    let onChange: ((change: EntityChange) => void) | undefined;
+    const feed = createChangeFeed(
+      (options) =>
+        new Promise((resolve) => {
+          onChange = options.onChange;
+          options.signal?.addEventListener("abort", () => resolve());
+        })
+    );
+    const listener = vi.fn();
+    const unsubscribeFailing = feed.subscribe("Widget", () => {
+      throw new Error("Listener failed");
+    });
+    const unsubscribe = feed.subscribe("Widget", listener);
+    onChange?.({ tableName: "Widget", id: "w1", operation: "UPDATE" });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(console.error).toHaveBeenCalled();
+    unsubscribeFailing();
+    unsubscribe();
+  });
+});
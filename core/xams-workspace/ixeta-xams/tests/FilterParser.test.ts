@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { FilterParseError, parseFilterText } from "../src/utils/FilterParser";
+import { Query, exp } from "../src/utils/Query";
+
+const condition = (text: string) => parseFilterText(text).conditions[0];
+
+describe("parseFilterText literals", () => {
+  it("keeps numbers as their text", () => {
+    expect(condition("Amount == 5").value).toBe("5");
+    expect(condition("Amount > -1.50").value).toBe("-1.50");
+  });
+
+  it("keeps leading zeros", () => {
+    expect(condition("Code == 00123").value).toBe("00123");
+  });
+
+  it("keeps booleans as their text", () => {
+    expect(condition("Paid == true").value).toBe("true");
+    expect(condition("Paid == FALSE").value).toBe("FALSE");
+  });
+
+  it("reads a bare null as the null string", () => {
+    expect(condition("ManagerId == null").value).toBe("null");
+    expect(condition("ManagerId != null").value).toBe("null");
+  });
+
+  it("reads quoted values without the quotes", () => {
+    expect(condition('Name == "Ben Smith"').value).toBe("Ben Smith");
+    expect(condition('Name == "say \\"hi\\""').value).toBe('say "hi"');
+    expect(condition('Name == ""').value).toBe("");
+  });
+
+  it("keeps list values as their text", () => {
+    expect(condition("Code In (001, true, null)").value).toEqual([
+      "001",
+      "true",
+      "null",
+    ]);
+    expect(condition("Amount Between 05 AND 10").value).toEqual(["05", "10"]);
+  });
+
+  it("reads operators without a value", () => {
+    expect(condition("Note IsNull")).toEqual({
+      field: "Note",
+      operator: "IsNull",
+    });
+  });
+});
+
+describe("parseFilterText expressions", () => {
+  it("nests AND groups under OR", () => {
+    expect(parseFilterText("A == 1 OR B == 2 AND C == 3")).toEqual({
+      logicalOperator: "OR",
+      conditions: [{ field: "A", operator: "==", value: "1" }],
+      filters: [
+        {
+          logicalOperator: "AND",
+          conditions: [
+            { field: "B", operator: "==", value: "2" },
+            { field: "C", operator: "==", value: "3" },
+          ],
+          filters: [],
+        },
+      ],
+    });
+  });
+
+  it("throws the position of syntax errors", () => {
+    expect(() => parseFilterText("Name == ")).toThrow(FilterParseError);
+    expect(() => parseFilterText("Name ~ Ben")).toThrow("at position 5.");
+  });
+});
+
+describe("Query.parseFilter", () => {
+  it("reads back the text printed by getStr", () => {
+    const text =
+      'Code == 00123 AND Name == "Ben Smith" AND Paid In (true, null)';
+    expect(Query.parseFilter(text).getStr()).toBe(text);
+    const filter = exp("Code", "==", "00123").and("Amount", ">", "5");
+    expect(Query.parseFilter(filter.getStr()).getJson()).toEqual(
+      filter.getJson()
+    );
+  });
+
+  it("sends unquoted values as strings", () => {
+    const request = new Query(["*"])
+      .from("Order")
+      .where(Query.parseFilter("Amount == 5 AND ManagerId == null"))
+      .toReadRequest();
+    expect(request.filters?.[0].filters).toEqual([
+      { field: "Amount", operator: "==", value: "5" },
+      { field: "ManagerId", operator: "==", value: "null" },
+    ]);
+  });
+});
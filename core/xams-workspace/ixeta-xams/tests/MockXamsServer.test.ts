@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MetadataResponse } from "../src/api/MetadataResponse";
+import { XamsClient } from "../src/api/XamsClient";
+import { MockXamsServer } from "../src/mock/MockXamsServer";
+import { field } from "./metadata";
+
+const metadata: MetadataResponse[] = [
+  {
+    tableName: "Widget",
+    displayName: "Widget",
+    primaryKey: "WidgetId",
+    fields: [
+      field("WidgetId", "Guid"),
+      field("Name", "String", { isRequired: true, displayName: "Name" }),
+      field("Price", "Decimal"),
+    ],
+  },
+  {
+    tableName: "Part",
+    displayName: "Part",
+    primaryKey: "PartId",
+    fields: [
+      field("PartId", "Guid"),
+      field("Name", "String", { isNullable: true }),
+      field("WidgetId", "Lookup", {
+        lookupName: "Widget",
+        lookupTable: "Widget",
+        lookupTableNameField: "Name",
+        isNullable: true,
+      }),
+    ],
+  },
+];
+
+const data = {
+  Widget: [
+    { WidgetId: "w1", Name: "Bolt", Price: 1 },
+    { WidgetId: "w2", Name: "Nut", Price: 2 },
+    { WidgetId: "w3", Name: "Screw", Price: 3 },
+  ],
+  Part: [{ PartId: "p1", Name: "Thread", WidgetId: "w1" }],
+};
+
+let server: MockXamsServer;
+let client: XamsClient;
+let restore: () => void;
+
+beforeEach(() => {
+  server = new MockXamsServer({ metadata, data });
+  restore = server.install();
+  client = new XamsClient({ apiUrl: "https://api" });
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  restore();
+  vi.restoreAllMocks();
+});
+
+describe("MockXamsServer reads", () => {
+  it("filters, orders and pages records", async () => {
+    const resp = await client.read<any>({
+      tableName: "Widget",
+      fields: ["Name"],
+      filters: [{ field: "Price", operator: ">", value: "1" }],
+      orderBy: [{ field: "Price", order: "desc" }],
+      maxResults: 1,
+      page: 2,
+    });
+    expect(resp.succeeded).toBe(true);
+    expect(resp.data.totalResults).toBe(2);
+    expect(resp.data.results.map((r) => r.Name)).toEqual(["Nut"]);
+  });
+
+  it("returns the names of lookups", async () => {
+    const resp = await client.read<any>({ tableName: "Part", fields: ["*"] });
+    expect(resp.data.results[0]).toMatchObject({
+      WidgetId: "w1",
+      Widget: "Bolt",
+    });
+  });
+
+  it("only reads tables the user has permissions for", async () => {
+    restore();
+    server = new MockXamsServer({
+      metadata,
+      data,
+      permissions: ["TABLE_Part_READ_SYSTEM"],
+    });
+    restore = server.install();
+    expect(
+      (await client.read({ tableName: "Widget", fields: ["*"] })).succeeded
+    ).toBe(false);
+    const resp = await client.read<any>({ tableName: "Part", fields: ["*"] });
+    expect(resp.data.results[0]._ui_info_).toEqual({
+      canDelete: false,
+      canUpdate: false,
+    });
+  });
+});
+
+describe("MockXamsServer mutations", () => {
+  it("returns field errors for required fields", async () => {
+    const resp = await client.create("Widget", { Price: 4 });
+    expect(resp.succeeded).toBe(false);
+    expect(resp.fieldErrors).toEqual([
+      { field: "Name", message: "Name is required." },
+    ]);
+  });
+
+  it("runs upserts as creates and updates in the server's order", async () => {
+    const resp = await client.bulk<any[]>({
+      upserts: [
+        { tableName: "Widget", fields: { WidgetId: "w1", Price: 10 } },
+        { tableName: "Widget", fields: { WidgetId: "w4", Name: "Washer" } },
+      ],
+      creates: [{ tableName: "Part", fields: { PartId: "p2", Name: "Head" } }],
+      updates: [
+        { tableName: "Part", fields: { PartId: "p2", WidgetId: "w4" } },
+      ],
+      deletes: [{ tableName: "Widget", fields: { WidgetId: "w3" } }],
+    });
+    expect(resp.succeeded).toBe(true);
+    // Creates, then updates, the upserts of each first
+    expect(resp.data.map((r: any) => [r.PartId ?? r.WidgetId, r.Name])).toEqual(
+      [
+        ["w4", "Washer"],
+        ["p2", "Head"],
+        ["w1", "Bolt"],
+        ["p2", "Head"],
+      ]
+    );
+    expect(server.getRecords("Widget").map((w) => w.WidgetId)).toEqual([
+      "w1",
+      "w2",
+      "w4",
+    ]);
+    expect(server.getRecords("Part")[1]).toEqual({
+      PartId: "p2",
+      Name: "Head",
+      WidgetId: "w4",
+    });
+  });
+
+  it("resolves upserts before the creates of the same request run", async () => {
+    const resp = await client.bulk({
+      creates: [{ tableName: "Widget", fields: { WidgetId: "w4", Name: "A" } }],
+      upserts: [{ tableName: "Widget", fields: { WidgetId: "w4", Name: "B" } }],
+    });
+    // The upsert is a create as w4 didn't exist yet, so w4 is created twice
+    expect(resp.succeeded).toBe(false);
+    expect(resp.friendlyMessage).toBe("Widget w4 already exists.");
+  });
+
+  it("saves nothing if any operation fails", async () => {
+    const resp = await client.bulk({
+      creates: [{ tableName: "Widget", fields: { Name: "Washer" } }],
+      deletes: [{ tableName: "Widget", fields: { WidgetId: "missing" } }],
+    });
+    expect(resp.succeeded).toBe(false);
+    expect(server.getRecords("Widget")).toEqual(data.Widget);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { Query, exp } from "../src/utils/Query";
+
+describe("Query immutability", () => {
+  it("returns a new query from builder methods", () => {
+    const query = new Query(["*"]).from("Widget");
+    const filtered = query.where("Price", ">", "0").orderBy("Name").top(10);
+    expect(query.toReadRequest().filters).toEqual([]);
+    expect(query.toReadRequest().maxResults).toBeNull();
+    expect(filtered.toReadRequest().filters).toHaveLength(1);
+    expect(filtered.toReadRequest().maxResults).toBe(10);
+  });
+
+  it("returns a new filter from and and or", () => {
+    const filter = exp("Price", ">", "0");
+    const both = filter.and("Name", "Contains", "XX0");
+    expect(filter.getStr()).toBe("Price > 0");
+    expect(both.getStr()).toBe("Price > 0 AND Name Contains XX0");
+  });
+
+  it("doesn't change the query when the read request is changed", () => {
+    const query = new Query(["Name"])
+      .from("Widget")
+      .join("Widget.OwnerId", "User.UserId", "owner", ["Name"])
+      .where("Price", ">", "0")
+      .whereIn("Name", new Query(["Name"]).from("Part"));
+    const request = query.toReadRequest();
+    const before = query.toKey();
+    request.fields?.push("Price");
+    request.joins?.push(request.joins[0]);
+    request.joins![0].fields?.push("Email");
+    request.filters![0].filters![0].value = "5";
+    request.whereIn?.pop();
+    expect(query.toKey()).toBe(before);
+  });
+
+  it("reads back a read request", () => {
+    const request = new Query(["Name"])
+      .from("Widget")
+      .where("Price", ">", "0")
+      .orderBy("Name", "desc")
+      .toReadRequest();
+    expect(Query.fromReadRequest(request).toReadRequest()).toEqual(request);
+    expect(
+      Query.decode(Query.fromReadRequest(request).encode()).toReadRequest()
+    ).toEqual(request);
+  });
+
+  it("keeps the filters of a loaded read request when extended", () => {
+    const stored = new Query(["Name"])
+      .from("Widget")
+      .where("Name", "==", "Bolt")
+      .toReadRequest();
+    const request = Query.fromReadRequest(stored)
+      .where("Price", ">", "5")
+      .toReadRequest();
+    expect(request.filters).toEqual([
+      {
+        logicalOperator: "AND",
+        filters: [
+          {
+            logicalOperator: "AND",
+            filters: [{ field: "Name", operator: "==", value: "Bolt" }],
+          },
+          {
+            logicalOperator: "AND",
+            filters: [{ field: "Price", operator: ">", value: "5" }],
+          },
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,484 @@
+import { describe, expect, it } from "vitest";
+import { MetadataResponse } from "../src/api/MetadataResponse";
+import { ReadFilter, ReadRequest } from "../src/api/ReadRequest";
+import { Query, exp } from "../src/utils/Query";
+import { evaluateRead, matchesRead } from "../src/utils/ReadEvaluator";
+
+const id = (n: number) => `00000000-0000-0000-0000-00000000000${n}`;
+
+const orderMetadata: MetadataResponse = {
+  tableName: "Order",
+  displayName: "Order",
+  primaryKey: "OrderId",
+  fields: [
+    { name: "OrderId", displayName: "Id", type: "Guid" },
+    { name: "Name", displayName: "Name", type: "String" },
+    { name: "Amount", displayName: "Amount", type: "Decimal" },
+    { name: "Quantity", displayName: "Quantity", type: "Int32" },
+    { name: "Paid", displayName: "Paid", type: "Boolean" },
+    { name: "Created", displayName: "Created", type: "DateTime" },
+    { name: "Note", displayName: "Note", type: "String" },
+    {
+      name: "CustomerId",
+      displayName: "Customer",
+      type: "Lookup",
+      lookupName: "Customer",
+      lookupTable: "Customer",
+      lookupTableNameField: "Name",
+    },
+  ],
+} as MetadataResponse;
+
+const customerMetadata: MetadataResponse = {
+  tableName: "Customer",
+  displayName: "Customer",
+  primaryKey: "CustomerId",
+  fields: [
+    { name: "CustomerId", displayName: "Id", type: "Guid" },
+    { name: "Name", displayName: "Name", type: "String" },
+  ],
+} as MetadataResponse;
+
+const hiddenMetadata: MetadataResponse = {
+  tableName: "Hidden",
+  displayName: "Hidden",
+  primaryKey: "HiddenId",
+  fields: [
+    { name: "HiddenId", displayName: "Id", type: "Guid" },
+    { name: "OrderId", displayName: "Order", type: "Guid" },
+  ],
+} as MetadataResponse;
+
+const metadata = [orderMetadata, customerMetadata, hiddenMetadata];
+
+// Values are kept the way they come from different sources, ie: strings from a form or an offline copy
+const orders: Record<string, any>[] = [
+  {
+    OrderId: id(1),
+    Name: "Apple pie",
+    Amount: "12.5",
+    Quantity: 2,
+    Paid: "true",
+    Created: "2024-03-05T10:00:00Z",
+    Note: "Deliver after 5",
+    CustomerId: id(8),
+    Customer: "Acme",
+  },
+  {
+    OrderId: id(2),
+    Name: "Banana bread",
+    Amount: 3,
+    Quantity: "10",
+    Paid: false,
+    Created: "2023-07-21T00:00:00Z",
+    Note: null,
+    CustomerId: id(9),
+    Customer: "Bolt",
+  },
+  {
+    OrderId: id(3),
+    Name: "apple tart",
+    Amount: 30,
+    Quantity: 1,
+    Paid: true,
+    Created: null,
+    Note: "",
+    CustomerId: null,
+    Customer: null,
+  },
+  {
+    OrderId: id(4),
+    Name: "Cherry cake",
+    Amount: 12.5,
+    Quantity: 5,
+    Paid: "false",
+    Created: "2024-12-25T08:30:00Z",
+    Note: "Gift wrap",
+    CustomerId: id(8),
+    Customer: "Acme",
+  },
+];
+
+const read = (request: ReadRequest | Query, tables = {}) =>
+  evaluateRead(orders, request, { metadata, tables });
+
+const names = (request: ReadRequest | Query, tables = {}) =>
+  read(request, tables).results.map((r) => r.Name);
+
+const filtered = (...filters: ReadFilter[]): ReadRequest => ({
+  tableName: "Order",
+  fields: ["*"],
+  orderBy: [{ field: "OrderId" }],
+  filters: filters,
+});
+
+describe("evaluateRead operators", () => {
+  it("matches strings with a case insensitive contains by default", () => {
+    expect(names(filtered({ field: "Name", value: "APPLE" }))).toEqual([
+      "Apple pie",
+      "apple tart",
+    ]);
+    expect(
+      names(filtered({ field: "Name", operator: "Contains", value: "cake" }))
+    ).toEqual(["Cherry cake"]);
+  });
+
+  it("compares with ==, !=, >, <, >= and <=", () => {
+    const amount = (operator: ReadFilter["operator"], value: string) =>
+      names(filtered({ field: "Amount", operator, value }));
+    expect(amount("==", "12.5")).toEqual(["Apple pie", "Cherry cake"]);
+    expect(amount("!=", "12.5")).toEqual(["Banana bread", "apple tart"]);
+    expect(amount(">", "12.5")).toEqual(["apple tart"]);
+    expect(amount("<", "12.5")).toEqual(["Banana bread"]);
+    expect(amount(">=", "12.5")).toEqual([
+      "Apple pie",
+      "apple tart",
+      "Cherry cake",
+    ]);
+    expect(amount("<=", "12.5")).toEqual([
+      "Apple pie",
+      "Banana bread",
+      "Cherry cake",
+    ]);
+  });
+
+  it("matches In and NotIn lists", () => {
+    expect(
+      names(
+        filtered({ field: "Quantity", operator: "In", values: ["1", "10"] })
+      )
+    ).toEqual(["Banana bread", "apple tart"]);
+    expect(
+      names(
+        filtered({ field: "Quantity", operator: "NotIn", values: ["1", "10"] })
+      )
+    ).toEqual(["Apple pie", "Cherry cake"]);
+  });
+
+  it("matches Between inclusively", () => {
+    expect(
+      names(
+        filtered({ field: "Quantity", operator: "Between", values: ["2", "5"] })
+      )
+    ).toEqual(["Apple pie", "Cherry cake"]);
+    expect(
+      names(
+        filtered({
+          field: "Created",
+          operator: "Between",
+          values: ["2024-01-01T00:00:00Z", "2024-12-31T00:00:00Z"],
+        })
+      )
+    ).toEqual(["Apple pie", "Cherry cake"]);
+  });
+
+  it("matches StartsWith, EndsWith and EqualsIgnoreCase", () => {
+    expect(
+      names(filtered({ field: "Name", operator: "StartsWith", value: "apple" }))
+    ).toEqual(["Apple pie", "apple tart"]);
+    expect(
+      names(filtered({ field: "Name", operator: "EndsWith", value: "CAKE" }))
+    ).toEqual(["Cherry cake"]);
+    expect(
+      names(
+        filtered({
+          field: "Name",
+          operator: "EqualsIgnoreCase",
+          value: "BANANA BREAD",
+        })
+      )
+    ).toEqual(["Banana bread"]);
+  });
+
+  it("matches IsNull, IsNotNull and null values", () => {
+    expect(names(filtered({ field: "Note", operator: "IsNull" }))).toEqual([
+      "Banana bread",
+    ]);
+    expect(names(filtered({ field: "Note", operator: "IsNotNull" }))).toEqual([
+      "Apple pie",
+      "apple tart",
+      "Cherry cake",
+    ]);
+    expect(
+      names(filtered({ field: "CustomerId", operator: "==", value: "null" }))
+    ).toEqual(["apple tart"]);
+    expect(
+      names(filtered({ field: "CustomerId", operator: "!=", value: "null" }))
+    ).toEqual(["Apple pie", "Banana bread", "Cherry cake"]);
+  });
+
+  it("ignores conditions without a value like the server", () => {
+    expect(names(filtered({ field: "Name", value: "" }))).toHaveLength(4);
+  });
+
+  it("throws for an unknown operator", () => {
+    expect(() =>
+      read(filtered({ field: "Amount", operator: "~" as any, value: "1" }))
+    ).toThrow("Invalid operator ~.");
+  });
+});
+
+describe("evaluateRead logical operators", () => {
+  it("ands top level filters", () => {
+    expect(
+      names(
+        filtered(
+          { field: "Name", value: "apple" },
+          { field: "Paid", operator: "==", value: "true" }
+        )
+      )
+    ).toEqual(["Apple pie", "apple tart"]);
+  });
+
+  it("evaluates nested AND and OR groups", () => {
+    // (Amount < 5 OR (Paid == true AND Quantity > 1)) AND Name Contains a
+    const query = new Query(["*"])
+      .from("Order")
+      .where(
+        exp("Amount", "<", "5")
+          .or("Paid", "==", "true")
+          .and("Quantity", ">", "1")
+      )
+      .where("Name", "Contains", "a")
+      .orderBy("Name");
+    expect(names(query)).toEqual(["Apple pie", "Banana bread"]);
+  });
+
+  it("evaluates groups from read requests", () => {
+    expect(
+      names(
+        filtered({
+          logicalOperator: "OR",
+          filters: [
+            { field: "Quantity", operator: "==", value: "10" },
+            {
+              logicalOperator: "AND",
+              filters: [
+                { field: "Paid", operator: "==", value: "false" },
+                { field: "Amount", operator: ">", value: "10" },
+              ],
+            },
+          ],
+        })
+      )
+    ).toEqual(["Banana bread", "Cherry cake"]);
+  });
+});
+
+describe("evaluateRead type coercion", () => {
+  it("converts numbers kept as strings", () => {
+    expect(
+      names(filtered({ field: "Quantity", operator: ">", value: "4" }))
+    ).toEqual(["Banana bread", "Cherry cake"]);
+  });
+
+  it("converts booleans kept as strings", () => {
+    expect(
+      names(filtered({ field: "Paid", operator: "==", value: "TRUE" }))
+    ).toEqual(["Apple pie", "apple tart"]);
+    expect(
+      names(filtered({ field: "Paid", operator: "==", value: "false" }))
+    ).toEqual(["Banana bread", "Cherry cake"]);
+  });
+
+  it("compares dates as dates", () => {
+    expect(
+      names(
+        filtered({
+          field: "Created",
+          operator: ">",
+          value: "2024-03-05T09:00:00.000Z",
+        })
+      )
+    ).toEqual(["Apple pie", "Cherry cake"]);
+    expect(
+      names(
+        filtered({
+          field: "Created",
+          operator: "==",
+          value: "2024-03-05T10:00:00.000Z",
+        })
+      )
+    ).toEqual(["Apple pie"]);
+  });
+
+  it("searches dates by year, day and month name like the server", () => {
+    expect(names(filtered({ field: "Created", value: "2024" }))).toEqual([
+      "Apple pie",
+      "Cherry cake",
+    ]);
+    expect(names(filtered({ field: "Created", value: "December" }))).toEqual([
+      "Cherry cake",
+    ]);
+    expect(names(filtered({ field: "Created", value: "July 21" }))).toEqual([
+      "Banana bread",
+    ]);
+    expect(
+      names(filtered({ field: "Created", operator: "<", value: "2024" }))
+    ).toEqual(["Banana bread"]);
+  });
+
+  it("ignores the utc offset sent with dates", () => {
+    expect(names(filtered({ field: "Created", value: "2023 ~-5" }))).toEqual([
+      "Banana bread",
+    ]);
+  });
+
+  it("compares lookups and guids case insensitively", () => {
+    expect(
+      names(
+        filtered({
+          field: "CustomerId",
+          operator: "==",
+          value: id(8).toUpperCase(),
+        })
+      )
+    ).toEqual(["Apple pie", "Cherry cake"]);
+  });
+});
+
+describe("evaluateRead ordering, paging and distinct", () => {
+  it("orders by several fields using the field types", () => {
+    const query = new Query(["*"])
+      .from("Order")
+      .orderBy("Amount", "desc")
+      .orderBy("Quantity");
+    expect(names(query)).toEqual([
+      "apple tart",
+      "Apple pie",
+      "Cherry cake",
+      "Banana bread",
+    ]);
+  });
+
+  it("orders null values first ascending", () => {
+    expect(names(new Query(["*"]).from("Order").orderBy("Created"))).toEqual([
+      "apple tart",
+      "Banana bread",
+      "Apple pie",
+      "Cherry cake",
+    ]);
+  });
+
+  it("pages the results", () => {
+    const page = read(
+      new Query(["*"]).from("Order").orderBy("Name").top(3).page(2)
+    );
+    expect(page.results.map((r) => r.Name)).toEqual(["Cherry cake"]);
+    expect(page.totalResults).toBe(4);
+    expect(page.pages).toBe(2);
+    expect(page.currentPage).toBe(2);
+    expect(page.maxResults).toBe(3);
+  });
+
+  it("returns the given records", () => {
+    expect(read(new Query(["Name"]).from("Order")).results[0]).toBe(orders[0]);
+  });
+
+  it("keeps the first record of each distinct selection", () => {
+    const results = read(
+      new Query(["Paid"]).from("Order").orderBy("OrderId").distinct()
+    ).results;
+    expect(results.map((r) => r.Name)).toEqual(["Apple pie", "Banana bread"]);
+  });
+});
+
+describe("evaluateRead subqueries and joins", () => {
+  const hidden = [{ HiddenId: id(5), OrderId: id(2) }];
+
+  it("excludes the records of except", () => {
+    const query = new Query(["*"])
+      .from("Order")
+      .except({
+        fromField: "OrderId",
+        query: new Query(["OrderId"]).from("Hidden").toReadRequest(),
+      })
+      .orderBy("OrderId");
+    expect(names(query, { Hidden: hidden })).toEqual([
+      "Apple pie",
+      "apple tart",
+      "Cherry cake",
+    ]);
+  });
+
+  it("only includes the records of whereIn", () => {
+    const query = new Query(["*"])
+      .from("Order")
+      .whereIn("OrderId", new Query(["OrderId"]).from("Hidden"));
+    expect(names(query, { Hidden: hidden })).toEqual(["Banana bread"]);
+  });
+
+  it("requires the records of except and whereIn tables", () => {
+    const query = new Query(["*"])
+      .from("Order")
+      .whereIn("OrderId", new Query(["OrderId"]).from("Hidden"));
+    expect(() => read(query)).toThrow(
+      "The records of Hidden are needed for except and whereIn."
+    );
+  });
+
+  it("filters on the alias.field values of records read with a join", () => {
+    const records: Record<string, any>[] = orders.map((o) => ({
+      ...o,
+      "c.Name": o.Customer,
+    }));
+    const query = new Query(["*"])
+      .from("Order")
+      .leftJoin("Order.CustomerId", "Customer.CustomerId", "c", ["Name"])
+      .where("c.Name", "==", "Bolt");
+    expect(
+      evaluateRead(records, query, { metadata }).results.map((r) => r.Name)
+    ).toEqual(["Banana bread"]);
+  });
+
+  it("joins the records of the joined table", () => {
+    const query = new Query(["Name"])
+      .from("Order")
+      .join("Order.CustomerId", "Customer.CustomerId", "c", ["Name"])
+      .orderBy("OrderId");
+    const results = read(query, {
+      Customer: [{ CustomerId: id(8), Name: "Acme" }],
+    }).results;
+    expect(results.map((r) => [r.Name, r["c.Name"]])).toEqual([
+      ["Apple pie", "Acme"],
+      ["Cherry cake", "Acme"],
+    ]);
+  });
+});
+
+describe("matchesRead", () => {
+  it("checks one record against the filters", () => {
+    const query = new Query(["*"])
+      .from("Order")
+      .where(exp("Amount", "<", "5").or("Paid", "==", "true"));
+    expect(matchesRead(orders[2], query, { metadata })).toBe(true);
+    expect(matchesRead(orders[3], query, { metadata })).toBe(false);
+  });
+
+  it("ignores paging", () => {
+    const query = new Query(["*"]).from("Order").top(1).page(3);
+    expect(matchesRead(orders[0], query, { metadata })).toBe(true);
+  });
+
+  it("checks the id and except of the read", () => {
+    const request: ReadRequest = {
+      tableName: "Order",
+      id: id(2),
+      except: [
+        {
+          fromField: "OrderId",
+          query: { tableName: "Hidden", fields: ["OrderId"] },
+        },
+      ],
+    };
+    const options = { metadata, tables: { Hidden: [] } };
+    expect(matchesRead(orders[1], request, options)).toBe(true);
+    expect(matchesRead(orders[0], request, options)).toBe(false);
+    expect(
+      matchesRead(orders[1], request, {
+        metadata,
+        tables: { Hidden: [{ HiddenId: id(5), OrderId: id(2) }] },
+      })
+    ).toBe(false);
+  });
+});
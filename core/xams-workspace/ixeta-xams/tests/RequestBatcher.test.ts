@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ApiResponse } from "../src/api/ApiResponse";
+import {
+  BulkReadRequest,
+  BulkReadResponse,
+  createRequestBatcher,
+} from "../src/api/RequestBatcher";
+import { RequestParams } from "../src/api/XamsClient";
+import { API_DATA_PERMISSIONS, API_DATA_READ } from "../src/apiurls";
+
+const ok = (data: any): ApiResponse<any> => ({
+  succeeded: true,
+  data: data,
+  friendlyMessage: "",
+  logMessage: "",
+  response: undefined,
+});
+
+const read = (tableName: string): RequestParams => ({
+  url: API_DATA_READ,
+  method: "POST",
+  body: { tableName: tableName, fields: ["*"] },
+});
+
+const permission = (name: string): RequestParams => ({
+  url: API_DATA_PERMISSIONS,
+  method: "POST",
+  body: { method: "has_permissions", parameters: { permissionNames: [name] } },
+});
+
+// Answers each read with its table name and each permission check with its permissions
+const bulkRead = async (
+  request: BulkReadRequest
+): Promise<ApiResponse<BulkReadResponse>> =>
+  ok({
+    reads: (request.reads ?? []).map((r) => ok(r.tableName)),
+    permissions: (request.permissions ?? []).map((p) =>
+      ok(p.parameters.permissionNames)
+    ),
+  });
+
+const failed = (status?: number) =>
+  ({
+    succeeded: false,
+    data: undefined,
+    friendlyMessage: "Server error",
+    logMessage: "",
+    response: status !== undefined ? new Response("", { status }) : undefined,
+  } as ApiResponse<any>);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("createRequestBatcher", () => {
+  it("sends requests made in the same tick as one bulk read", async () => {
+    const batcher = createRequestBatcher();
+    const send = vi.fn();
+    const sendBatch = vi.fn(bulkRead);
+    const resps = await Promise.all(
+      [read("Widget"), permission("ACTION_Export"), read("Part")].map(
+        (params) => batcher({ params, send, sendBatch })
+      )
+    );
+    expect(sendBatch).toHaveBeenCalledTimes(1);
+    expect(send).not.toHaveBeenCalled();
+    expect(resps.map((r) => r.data)).toEqual([
+      "Widget",
+      ["ACTION_Export"],
+      "Part",
+    ]);
+  });
+
+  it("sends a single request on its own", async () => {
+    const batcher = createRequestBatcher();
+    const sendBatch = vi.fn(bulkRead);
+    const resp = await batcher({
+      params: read("Widget"),
+      send: async () => ok("alone"),
+      sendBatch,
+    });
+    expect(resp.data).toBe("alone");
+    expect(sendBatch).not.toHaveBeenCalled();
+  });
+
+  it("splits batches past maxSize", async () => {
+    const batcher = createRequestBatcher({ maxSize: 2 });
+    const sendBatch = vi.fn(bulkRead);
+    await Promise.all(
+      ["A", "B", "C", "D"].map((t) =>
+        batcher({ params: read(t), send: vi.fn(), sendBatch })
+      )
+    );
+    expect(sendBatch).toHaveBeenCalledTimes(2);
+  });
+
+  it("sends each request on its own once the server doesn't support bulk reads", async () => {
+    const batcher = createRequestBatcher();
+    const sendBatch = vi.fn(async () => failed(404));
+    const send = vi.fn(async (params: RequestParams) =>
+      ok(params.body.tableName)
+    );
+    const first = await Promise.all(
+      ["A", "B"].map((t) => batcher({ params: read(t), send, sendBatch }))
+    );
+    const second = await Promise.all(
+      ["C", "D"].map((t) => batcher({ params: read(t), send, sendBatch }))
+    );
+    expect(sendBatch).toHaveBeenCalledTimes(1);
+    expect([...first, ...second].map((r) => r.data)).toEqual([
+      "A",
+      "B",
+      "C",
+      "D",
+    ]);
+  });
+
+  it("resolves with a failed response if a request throws", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const batcher = createRequestBatcher();
+    const resp = await batcher({
+      params: read("Widget"),
+      send: async () => {
+        throw new Error("Network down");
+      },
+      sendBatch: bulkRead,
+    });
+    expect(resp.succeeded).toBe(false);
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it("reports a failed batch once", async () => {
+    const batcher = createRequestBatcher();
+    const onError = vi.fn();
+    const resps = await Promise.all(
+      ["A", "B"].map((t) =>
+        batcher({
+          params: read(t),
+          send: vi.fn(),
+          sendBatch: async () => failed(500),
+          onError,
+        })
+      )
+    );
+    expect(resps.every((r) => !r.succeeded)).toBe(true);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith("Server error");
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { MetadataResponse } from "../src/api/MetadataResponse";
+import { XamsClient } from "../src/api/XamsClient";
+import { MockXamsServer } from "../src/mock/MockXamsServer";
+import { TempId, Transaction } from "../src/utils/Transaction";
+import { field } from "./metadata";
+
+let restore: (() => void) | undefined;
+
+afterEach(() => {
+  restore?.();
+  restore = undefined;
+});
+
+describe("Transaction", () => {
+  it("assigns temp ids and points references at them", () => {
+    const transaction = new Transaction();
+    const order = transaction.create("Order", { Name: "First" });
+    const line = transaction.create("OrderLine", {
+      OrderId: order,
+      Quantity: 2,
+    });
+    transaction.update("Order", { OrderId: order, Total: 10 });
+    transaction.delete("OrderLine", line);
+
+    expect(order.key).toBe("Order_1");
+    expect(line.key).toBe("OrderLine_1");
+    expect(transaction.toBulkRequest()).toEqual({
+      creates: [
+        {
+          tableName: "Order",
+          fields: { Name: "First", OrderId: order.id },
+          parameters: undefined,
+        },
+        {
+          tableName: "OrderLine",
+          fields: { OrderId: order.id, Quantity: 2, OrderLineId: line.id },
+          parameters: undefined,
+        },
+      ],
+      updates: [
+        {
+          tableName: "Order",
+          fields: { OrderId: order.id, Total: 10 },
+          parameters: undefined,
+        },
+      ],
+      deletes: [
+        {
+          tableName: "OrderLine",
+          fields: { OrderLineId: line.id },
+          parameters: undefined,
+        },
+      ],
+    });
+  });
+
+  it("keeps the id and temp id given to a create", () => {
+    const transaction = new Transaction();
+    const order = transaction.create(
+      "Order",
+      { OrderId: "a1" },
+      { tempId: "order" }
+    );
+    expect(order.id).toBe("a1");
+    expect(order.key).toBe("order");
+    expect(() => transaction.create("Order", {}, { tempId: "order" })).toThrow(
+      "Temp id order is already used in this transaction."
+    );
+  });
+
+  it("only references records created in the transaction", () => {
+    const transaction = new Transaction();
+    const other = new TempId("Order_1", "Order", "a1");
+    expect(() => transaction.create("OrderLine", { OrderId: other })).toThrow(
+      "OrderId references Order_1"
+    );
+    expect(() => transaction.delete("Order", other)).toThrow();
+  });
+
+  it("sets temp ids as the given primary keys", () => {
+    const transaction = new Transaction({ primaryKeys: { Order: "Code" } });
+    const order = transaction.create("Order", { Code: "A-1" });
+    const line = transaction.create("OrderLine", { OrderCode: order });
+    expect(order.id).toBe("A-1");
+    const request = transaction.toBulkRequest({ OrderLine: "LineKey" });
+    expect(request.creates?.map((c) => c.fields)).toEqual([
+      { Code: "A-1" },
+      { OrderCode: "A-1", LineKey: line.id },
+    ]);
+    expect(
+      transaction.getResult(
+        [
+          { Code: "A-1", Name: "Order" },
+          { LineKey: line.id.toUpperCase(), Name: "Line" },
+        ],
+        { OrderLine: "LineKey" }
+      )
+    ).toEqual({
+      Order_1: { Code: "A-1", Name: "Order" },
+      OrderLine_1: { LineKey: line.id.toUpperCase(), Name: "Line" },
+    });
+  });
+});
+
+describe("XamsClient.transaction", () => {
+  it("reads the primary keys from metadata", async () => {
+    const metadata: MetadataResponse[] = [
+      {
+        tableName: "Order",
+        displayName: "Order",
+        primaryKey: "OrderKey",
+        fields: [field("OrderKey", "Guid"), field("Name", "String")],
+      },
+      {
+        tableName: "OrderLine",
+        displayName: "Order Line",
+        primaryKey: "OrderLineId",
+        fields: [
+          field("OrderLineId", "Guid"),
+          field("OrderKey", "Lookup", { lookupTable: "Order" }),
+        ],
+      },
+    ];
+    const server = new MockXamsServer({ metadata });
+    restore = server.install();
+    const transaction = new Transaction();
+    const order = transaction.create("Order", { Name: "First" });
+    transaction.create("OrderLine", { OrderKey: order });
+
+    const resp = await new XamsClient({ apiUrl: "https://api" }).transaction(
+      transaction
+    );
+    expect(resp.succeeded).toBe(true);
+    expect(resp.data.Order_1).toMatchObject({
+      OrderKey: order.id,
+      Name: "First",
+    });
+    expect(resp.data.OrderLine_1).toMatchObject({ OrderKey: order.id });
+    expect(server.getRecords("Order")).toEqual([
+      { OrderKey: order.id, Name: "First" },
+    ]);
+  });
+});
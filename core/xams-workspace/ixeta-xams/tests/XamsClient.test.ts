@@ -0,0 +1,308 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { XamsClient } from "../src/api/XamsClient";
+
+const jsonResponse = (
+  body: any,
+  status = 200,
+  headers: { [key: string]: string } = {}
+) =>
+  new Response(JSON.stringify(body), {
+    status: status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+
+const succeeded = (data: any) => ({
+  succeeded: true,
+  data: data,
+  friendlyMessage: "",
+  logMessage: "",
+});
+
+const mockFetch = (...responses: (() => Response | Promise<Response>)[]) => {
+  const fetch = vi.fn<(url: string, init: RequestInit) => Promise<Response>>();
+  for (const response of responses) {
+    fetch.mockImplementationOnce(async () => response());
+  }
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("XamsClient", () => {
+  it("sends the access token, user id and headers", async () => {
+    const fetch = mockFetch(() => jsonResponse(succeeded({ results: [] })));
+    const client = new XamsClient({
+      apiUrl: "https://api",
+      headers: { Tenant: "acme" },
+      getAccessToken: async () => "token",
+      getUserId: () => "user-1",
+    });
+    const resp = await client.read({ tableName: "Widget", fields: ["*"] });
+    expect(resp.succeeded).toBe(true);
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe("https://api/data/Read");
+    expect(init.headers).toMatchObject({
+      Authorization: "Bearer token",
+      UserId: "user-1",
+      Tenant: "acme",
+      "Content-Type": "application/json",
+    });
+    expect(JSON.parse(init.body as string)).toEqual({
+      tableName: "Widget",
+      fields: ["*"],
+    });
+  });
+
+  it("can call destructured methods", async () => {
+    mockFetch(
+      () => jsonResponse(succeeded({ results: [] })),
+      () => jsonResponse(succeeded({ WidgetId: "1" }))
+    );
+    const { read, execute } = new XamsClient({ apiUrl: "https://api" });
+    expect((await read({ tableName: "Widget", fields: ["*"] })).succeeded).toBe(
+      true
+    );
+    expect(
+      (await execute({ method: "POST", url: "/data/Create", body: {} }))
+        .succeeded
+    ).toBe(true);
+  });
+
+  it("reports failed responses to onError", async () => {
+    mockFetch(() =>
+      jsonResponse(
+        {
+          succeeded: false,
+          data: null,
+          friendlyMessage: "Name is required.",
+          logMessage: "",
+        },
+        400
+      )
+    );
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const onError = vi.fn();
+    const client = new XamsClient({ apiUrl: "https://api", onError });
+    const resp = await client.create("Widget", { Name: "" });
+    expect(resp.succeeded).toBe(false);
+    expect(onError).toHaveBeenCalledWith("Name is required.");
+  });
+});
+
+describe("XamsClient token refresh", () => {
+  it("refreshes the token once and replays the request", async () => {
+    const fetch = mockFetch(
+      () => new Response("", { status: 401 }),
+      () => jsonResponse(succeeded({ results: [] }))
+    );
+    const refreshToken = vi.fn(async () => "new-token");
+    const client = new XamsClient({
+      apiUrl: "https://api",
+      getAccessToken: () => "expired-token",
+      refreshToken,
+    });
+    const resp = await client.read({ tableName: "Widget", fields: ["*"] });
+    expect(resp.succeeded).toBe(true);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[1][1].headers).toMatchObject({
+      Authorization: "Bearer new-token",
+    });
+  });
+
+  it("shares one refresh between concurrent requests", async () => {
+    let token = "expired-token";
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string, init: RequestInit) =>
+        (init.headers as any).Authorization === "Bearer new-token"
+          ? jsonResponse(succeeded({ results: [] }))
+          : new Response("", { status: 401 })
+      )
+    );
+    const refreshToken = vi.fn(async () => {
+      token = "new-token";
+      return token;
+    });
+    const client = new XamsClient({
+      apiUrl: "https://api",
+      getAccessToken: () => token,
+      refreshToken,
+    });
+    const resps = await Promise.all([
+      client.read({ tableName: "Widget", fields: ["*"] }),
+      client.read({ tableName: "Part", fields: ["*"] }),
+    ]);
+    expect(resps.every((r) => r.succeeded)).toBe(true);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it("calls onUnauthorized when the refresh fails", async () => {
+    const fetch = mockFetch(() => new Response("", { status: 401 }));
+    const onUnauthorized = vi.fn();
+    const client = new XamsClient({
+      apiUrl: "https://api",
+      refreshToken: async () => null,
+      onUnauthorized,
+    });
+    const resp = await client.read({ tableName: "Widget", fields: ["*"] });
+    expect(resp.succeeded).toBe(false);
+    expect(resp.response?.status).toBe(401);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+  });
+});
+
+// Never responds, rejects when the request is aborted like fetch
+const hangingFetch = () =>
+  vi.fn(
+    (url: string, init: RequestInit) =>
+      new Promise<Response>((resolve, reject) => {
+        const onAbort = () => reject(new DOMException("Aborted", "AbortError"));
+        if (init.signal?.aborted) {
+          onAbort();
+        }
+        init.signal?.addEventListener("abort", onAbort);
+      })
+  );
+
+describe("XamsClient retry and cancellation", () => {
+  it("retries idempotent requests on retryable statuses", async () => {
+    const fetch = mockFetch(
+      () => new Response("", { status: 503, headers: { "Retry-After": "0" } }),
+      () => new Response("", { status: 502 }),
+      () => jsonResponse(succeeded({ results: [] }))
+    );
+    const client = new XamsClient({
+      apiUrl: "https://api",
+      retry: { retries: 2, baseDelayMs: 1 },
+    });
+    const resp = await client.read({ tableName: "Widget", fields: ["*"] });
+    expect(resp.succeeded).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("doesn't retry mutations or other failures", async () => {
+    const fetch = mockFetch(
+      () => new Response("", { status: 503 }),
+      () => new Response("Bad", { status: 500 })
+    );
+    const client = new XamsClient({
+      apiUrl: "https://api",
+      retry: { retries: 2, baseDelayMs: 1 },
+    });
+    expect((await client.create("Widget", { Name: "Bolt" })).succeeded).toBe(
+      false
+    );
+    expect(
+      (await client.read({ tableName: "Widget", fields: ["*"] })).succeeded
+    ).toBe(false);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails requests that time out", async () => {
+    vi.stubGlobal("fetch", hangingFetch());
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const onError = vi.fn();
+    const client = new XamsClient({
+      apiUrl: "https://api",
+      timeoutMs: 10,
+      onError,
+    });
+    const resp = await client.read({ tableName: "Widget", fields: ["*"] });
+    expect(resp.succeeded).toBe(false);
+    expect(resp.aborted).toBeUndefined();
+    expect(resp.friendlyMessage).toBe("The request timed out after 10ms");
+    expect(onError).toHaveBeenCalledWith("The request timed out after 10ms");
+  });
+
+  it("returns an aborted response when the caller aborts", async () => {
+    const fetch = hangingFetch();
+    vi.stubGlobal("fetch", fetch);
+    const onError = vi.fn();
+    const client = new XamsClient({
+      apiUrl: "https://api",
+      retry: { retries: 2, baseDelayMs: 1 },
+      onError,
+    });
+    const controller = new AbortController();
+    const promise = client.read(
+      { tableName: "Widget", fields: ["*"] },
+      { signal: controller.signal }
+    );
+    controller.abort();
+    const resp = await promise;
+    expect(resp.succeeded).toBe(false);
+    expect(resp.aborted).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
+
+describe("XamsClient middleware", () => {
+  it("runs middleware in order around the request", async () => {
+    const fetch = mockFetch(() => jsonResponse(succeeded({ results: [] })));
+    const calls: string[] = [];
+    const client = new XamsClient({
+      apiUrl: "https://api",
+      middleware: [
+        {
+          handle: async (params, next) => {
+            calls.push("first");
+            const resp = await next({
+              ...params,
+              headers: { ...params.headers, "X-Correlation-Id": "1" },
+            });
+            calls.push("first done");
+            return { ...resp, data: { ...resp.data, seen: true } };
+          },
+        },
+        {
+          handle: async (params, next) => {
+            calls.push("second");
+            return next(params);
+          },
+        },
+      ],
+    });
+    const resp = await client.read({ tableName: "Widget", fields: ["*"] });
+    expect(calls).toEqual(["first", "second", "first done"]);
+    expect(resp.data).toEqual({ results: [], seen: true });
+    expect(fetch.mock.calls[0][1].headers).toMatchObject({
+      "X-Correlation-Id": "1",
+    });
+  });
+
+  it("short-circuits requests without calling next", async () => {
+    const fetch = mockFetch();
+    const client = new XamsClient({
+      apiUrl: "https://api",
+      middleware: [
+        { handle: async () => succeeded({ results: ["cached"] }) as any },
+      ],
+    });
+    const resp = await client.read({ tableName: "Widget", fields: ["*"] });
+    expect(resp.data.results).toEqual(["cached"]);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("can replace the fetch response before it's parsed", async () => {
+    mockFetch(() => new Response("", { status: 503 }));
+    const client = new XamsClient({
+      apiUrl: "https://api",
+      middleware: [
+        {
+          onFetchResponse: (response) =>
+            response.status === 503
+              ? jsonResponse(succeeded({ results: [] }))
+              : undefined,
+        },
+      ],
+    });
+    const resp = await client.read({ tableName: "Widget", fields: ["*"] });
+    expect(resp.succeeded).toBe(true);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MetadataResponse } from "../src/api/MetadataResponse";
+import { XamsClient } from "../src/api/XamsClient";
+import {
+  generateTypes,
+  getMetadataSnapshot,
+} from "../src/codegen/generateTypes";
+import { MockXamsServer } from "../src/mock/MockXamsServer";
+import { field } from "./metadata";
+
+const metadata: MetadataResponse[] = [
+  {
+    tableName: "Widget",
+    displayName: "Widget",
+    primaryKey: "WidgetId",
+    fields: [
+      field("WidgetId", "Guid", { order: 1 }),
+      field("Name", "String", { order: 2, isNullable: true }),
+      field("Price", "Decimal", { order: 3 }),
+      field("Active", "Boolean", { order: 4 }),
+      field("StatusId", "Lookup", {
+        order: 5,
+        isNullable: true,
+        lookupName: "Status",
+        lookupTable: "Option",
+        option: "Widget Status",
+      }),
+    ],
+  },
+  {
+    tableName: "Option",
+    displayName: "Option",
+    primaryKey: "OptionId",
+    fields: [
+      field("OptionId", "Guid"),
+      field("Name", "String", { isNullable: true }),
+      field("Label", "String", { isNullable: true }),
+      field("Value", "String", { isNullable: true }),
+      field("Order", "Int32", { isNullable: true }),
+    ],
+  },
+];
+
+const options = [
+  { OptionId: "1", Name: "Widget Status", Label: "Draft", Order: 1 },
+  { OptionId: "2", Name: "Widget Status", Label: "Sold", Order: 2 },
+  { OptionId: "3", Name: "Other", Label: "Ignored", Order: 1 },
+];
+
+let restore: (() => void) | undefined;
+
+afterEach(() => {
+  restore?.();
+  restore = undefined;
+  vi.restoreAllMocks();
+});
+
+describe("generateTypes", () => {
+  it("generates entity types from metadata", () => {
+    const types = generateTypes({ tables: [], metadata: metadata });
+    expect(types).toContain(
+      'export type TableName =\n  | "Option"\n  | "Widget";'
+    );
+    expect(types).toContain(
+      [
+        "export interface Widget {",
+        "  WidgetId: string;",
+        "  Name: string | null;",
+        "  Price: number;",
+        "  Active: boolean;",
+        "  StatusId: string | null;",
+        "  Status?: Widget_StatusOption | null;",
+        "  _ui_info_?: { canDelete: boolean; canUpdate: boolean };",
+        "}",
+      ].join("\n")
+    );
+    expect(types).toContain(
+      'export interface Entities {\n  "Option": Option;\n  "Widget": Widget;\n}'
+    );
+  });
+
+  it("types option fields with the labels of their options", () => {
+    const types = generateTypes({
+      tables: [],
+      metadata: metadata,
+      options: options.map((o) => ({ name: o.Name, label: o.Label })),
+    });
+    expect(types).toContain(
+      'export type Widget_StatusOption =\n  | "Draft"\n  | "Sold";'
+    );
+    expect(generateTypes({ tables: [], metadata: metadata })).toContain(
+      "export type Widget_StatusOption = string;"
+    );
+  });
+});
+
+describe("getMetadataSnapshot", () => {
+  it("reads the tables, their metadata and every option", async () => {
+    const server = new MockXamsServer({
+      metadata: metadata,
+      data: { Option: options },
+    });
+    restore = server.install();
+    const snapshot = await getMetadataSnapshot(
+      new XamsClient({ apiUrl: "https://api" })
+    );
+    expect(snapshot.tables.map((t) => t.tableName)).toEqual([
+      "Option",
+      "Widget",
+    ]);
+    expect(snapshot.metadata).toEqual([metadata[1], metadata[0]]);
+    expect(snapshot.options).toEqual([
+      { name: "Widget Status", label: "Draft", value: null },
+      { name: "Other", label: "Ignored", value: null },
+      { name: "Widget Status", label: "Sold", value: null },
+    ]);
+  });
+
+  it("throws when the options can't be read", async () => {
+    const server = new MockXamsServer({
+      metadata: metadata,
+      permissions: ["TABLE_Widget_READ_SYSTEM"],
+    });
+    restore = server.install();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await expect(
+      getMetadataSnapshot(new XamsClient({ apiUrl: "https://api" }))
+    ).rejects.toThrow("Missing read permissions for Option.");
+  });
+});
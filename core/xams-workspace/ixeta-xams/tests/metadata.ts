@@ -0,0 +1,26 @@
+import { MetadataField } from "../src/api/MetadataResponse";
+
+// Metadata field with the defaults of a non nullable field
+export const field = (
+  name: string,
+  type: string,
+  props: Partial<MetadataField> = {}
+): MetadataField => ({
+  name: name,
+  displayName: name,
+  type: type,
+  order: 0,
+  lookupName: "",
+  lookupTable: "",
+  lookupTableNameField: "",
+  lookupTableDescriptionField: "",
+  dateFormat: "",
+  isTimeless: false,
+  isNullable: false,
+  isRequired: false,
+  isRecommended: false,
+  isReadOnly: false,
+  option: "",
+  numberRange: "",
+  ...props,
+});
@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MetadataResponse } from "../src/api/MetadataResponse";
+import { XamsClient } from "../src/api/XamsClient";
+import prefetchDataTable from "../src/components/datatable/prefetchDataTable";
+import { MockXamsServer } from "../src/mock/MockXamsServer";
+import { field } from "./metadata";
+
+const metadata: MetadataResponse[] = [
+  {
+    tableName: "Widget",
+    displayName: "Widget",
+    primaryKey: "WidgetId",
+    fields: [
+      field("WidgetId", "Guid"),
+      field("Name", "String"),
+      field("Price", "Decimal"),
+      field("IsActive", "Boolean"),
+    ],
+  },
+  {
+    tableName: "Part",
+    displayName: "Part",
+    primaryKey: "PartId",
+    fields: [
+      field("PartId", "Guid"),
+      field("Name", "String"),
+      field("WidgetId", "Lookup", { lookupTable: "Widget" }),
+    ],
+  },
+];
+
+const widgets = [
+  { WidgetId: "w1", Name: "Bolt", Price: 2, IsActive: true },
+  { WidgetId: "w2", Name: "Nut", Price: 1, IsActive: false },
+];
+
+let restore: (() => void) | undefined;
+
+const setup = (permissions?: string[]) => {
+  const server = new MockXamsServer({
+    metadata,
+    data: { Widget: widgets },
+    permissions,
+  });
+  restore = server.install();
+  return new XamsClient({ apiUrl: "https://api" });
+};
+
+afterEach(() => {
+  restore?.();
+  restore = undefined;
+  vi.restoreAllMocks();
+});
+
+describe("prefetchDataTable", () => {
+  it("loads the metadata, permissions and first page", async () => {
+    const client = setup();
+    const state = await prefetchDataTable(client, {
+      tableName: "Widget",
+      fields: ["Name", "Price"],
+      orderBy: [{ field: "Price", order: "asc" }],
+    });
+    expect(state).toMatchObject({
+      tableName: "Widget",
+      metadata: metadata[0],
+      joinMetadata: [],
+      permissions: {
+        read: "SYSTEM",
+        create: "SYSTEM",
+        update: "SYSTEM",
+        delete: "SYSTEM",
+      },
+      activeSwitch: null,
+    });
+    expect(state?.data.results.map((r) => r.Name)).toEqual(["Nut", "Bolt"]);
+    // The result is passed from the server to the client
+    expect(JSON.parse(JSON.stringify(state))).toEqual(state);
+  });
+
+  it("loads the metadata of joined tables", async () => {
+    const client = setup();
+    const metadataSpy = vi.spyOn(client, "metadata");
+    const state = await prefetchDataTable(client, {
+      tableName: "Widget",
+      joins: [
+        {
+          fields: ["Name"],
+          alias: "p",
+          fromTable: "Widget",
+          fromField: "WidgetId",
+          toTable: "Part",
+          toField: "WidgetId",
+        },
+      ],
+      fields: ["Name"],
+    });
+    expect(metadataSpy.mock.calls.map((c) => c[0])).toEqual(["Widget", "Part"]);
+    expect(state?.joinMetadata).toEqual([metadata[1]]);
+  });
+
+  it("only reads active records with the active switch", async () => {
+    const client = setup();
+    const state = await prefetchDataTable(client, {
+      tableName: "Widget",
+      showActiveSwitch: true,
+    });
+    expect(state?.activeSwitch).toBe("Active");
+    expect(state?.data.results.map((r) => r.WidgetId)).toEqual(["w1"]);
+  });
+
+  it("returns null when the table can't be read", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const client = setup(["TABLE_Part_READ_SYSTEM"]);
+    expect(await prefetchDataTable(client, { tableName: "Widget" })).toBe(null);
+    expect(
+      await prefetchDataTable(client, {
+        tableName: "Part",
+        disabledMessage: "Disabled",
+      })
+    ).toBe(null);
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MetadataResponse } from "../src/api/MetadataResponse";
+import { XamsClient } from "../src/api/XamsClient";
+import { ReadAllError } from "../src/api/readAll";
+import { MockXamsServer } from "../src/mock/MockXamsServer";
+import { field } from "./metadata";
+
+const metadata: MetadataResponse[] = [
+  {
+    tableName: "Widget",
+    displayName: "Widget",
+    primaryKey: "Code",
+    fields: [field("Code", "String"), field("Name", "String")],
+  },
+];
+
+const widgets = Array.from({ length: 7 }, (_, i) => ({
+  Code: `W${i}`,
+  Name: `Widget ${6 - i}`,
+}));
+
+let server: MockXamsServer;
+let client: XamsClient;
+let restore: () => void;
+
+beforeEach(() => {
+  server = new MockXamsServer({ metadata, data: { Widget: widgets } });
+  restore = server.install();
+  client = new XamsClient({ apiUrl: "https://api" });
+});
+
+afterEach(() => {
+  restore();
+  vi.restoreAllMocks();
+});
+
+describe("readAll", () => {
+  it("reads every page", async () => {
+    const read = vi.spyOn(client, "read");
+    const records = await client
+      .readAll<any>(
+        { tableName: "Widget", fields: ["Code"], orderBy: [{ field: "Code" }] },
+        { pageSize: 3, concurrency: 2 }
+      )
+      .toArray();
+    expect(records.map((r) => r.Code)).toEqual(widgets.map((w) => w.Code));
+    expect(read).toHaveBeenCalledTimes(3);
+  });
+
+  it("iterates records and pages", async () => {
+    const iterator = client.readAll<any>(
+      { tableName: "Widget", fields: ["*"] },
+      { pageSize: 5 }
+    );
+    const codes: string[] = [];
+    for await (const record of iterator) {
+      codes.push(record.Code);
+    }
+    expect(codes).toHaveLength(7);
+    const pages = [];
+    for await (const page of iterator.pages()) {
+      pages.push(page.results.length);
+    }
+    expect(pages).toEqual([5, 2]);
+  });
+
+  it("pages on the primary key from metadata", async () => {
+    const read = vi.spyOn(client, "read");
+    const records = await client
+      .readAll<any>(
+        { tableName: "Widget", fields: ["Name"] },
+        { pageSize: 3, keyset: true }
+      )
+      .toArray();
+    expect(records.map((r) => r.Code)).toEqual(widgets.map((w) => w.Code));
+    expect(read.mock.calls[1][0]).toMatchObject({
+      fields: ["Name", "Code"],
+      orderBy: [{ field: "Code", order: "asc" }],
+      filters: [{ field: "Code", operator: ">", value: "W2" }],
+    });
+  });
+
+  it("pages on the given keyset field", async () => {
+    const records = await client
+      .readAll<any>(
+        { tableName: "Widget", fields: ["*"] },
+        { pageSize: 3, keyset: { field: "Name" } }
+      )
+      .toArray();
+    expect(records.map((r) => r.Name)).toEqual(
+      widgets.map((w) => w.Name).reverse()
+    );
+  });
+
+  it("throws when a page fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await expect(
+      client.readAll({ tableName: "Missing", fields: ["*"] }).toArray()
+    ).rejects.toThrow(ReadAllError);
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { EntityChange, createChangeFeed } from "../src/api/ChangeFeed";
+import useEntityChanges from "../src/hooks/useEntityChanges";
+
+// Runs the hook outside of a renderer, effects run again when their dependencies change
+const hooks = vi.hoisted(() => {
+  const refs: { current: any }[] = [];
+  const effects: { deps?: any[]; cleanup?: void | (() => void) }[] = [];
+  let refIndex = 0;
+  let effectIndex = 0;
+  return {
+    context: undefined as any,
+    render: <T>(hook: () => T) => {
+      refIndex = 0;
+      effectIndex = 0;
+      return hook();
+    },
+    unmount: () => {
+      for (const effect of effects) {
+        effect.cleanup?.();
+      }
+      effects.length = 0;
+      refs.length = 0;
+    },
+    useRef: (value: any) => (refs[refIndex++] ??= { current: value }),
+    useEffect: (effect: () => void | (() => void), deps?: any[]) => {
+      const previous = effects[effectIndex];
+      if (
+        previous === undefined ||
+        deps === undefined ||
+        deps.some((dep, i) => !Object.is(dep, previous.deps?.[i]))
+      ) {
+        previous?.cleanup?.();
+        effects[effectIndex] = { deps, cleanup: effect() };
+      }
+      effectIndex++;
+    },
+  };
+});
+
+vi.mock("react", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("react")>()),
+  useContext: () => hooks.context,
+  useRef: hooks.useRef,
+  useEffect: hooks.useEffect,
+}));
+vi.mock("../src/components/OfflineSync", () => ({ default: () => null }));
+
+const setup = () => {
+  let onChange: ((change: EntityChange) => void) | undefined;
+  const connect = vi.fn(
+    (options: { onChange: typeof onChange; signal?: AbortSignal }) =>
+      new Promise<void>((resolve) => {
+        onChange = options.onChange;
+        options.signal?.addEventListener("abort", () => resolve());
+      })
+  );
+  hooks.context = { changeFeed: createChangeFeed(connect) };
+  const publish = (change: EntityChange) => onChange?.(change);
+  return { connect, publish };
+};
+
+afterEach(() => {
+  hooks.unmount();
+  hooks.context = undefined;
+});
+
+describe("useEntityChanges", () => {
+  it("calls the latest listener with changes to the record", () => {
+    const { publish } = setup();
+    const first = vi.fn();
+    const latest = vi.fn();
+    expect(hooks.render(() => useEntityChanges("Widget", first, "w1"))).toBe(
+      true
+    );
+    hooks.render(() => useEntityChanges("Widget", latest, "w1"));
+    publish({ tableName: "Widget", id: "w2", operation: "UPDATE" });
+    publish({ tableName: "Widget", id: "w1", operation: "UPDATE" });
+    expect(first).not.toHaveBeenCalled();
+    expect(latest).toHaveBeenCalledTimes(1);
+    expect(latest).toHaveBeenCalledWith({
+      tableName: "Widget",
+      id: "w1",
+      operation: "UPDATE",
+    });
+  });
+
+  it("subscribes again when the record changes and unsubscribes on unmount", () => {
+    const { connect, publish } = setup();
+    const listener = vi.fn();
+    hooks.render(() => useEntityChanges("Widget", listener, "w1"));
+    hooks.render(() => useEntityChanges("Widget", listener, "w2"));
+    publish({ tableName: "Widget", id: "w1", operation: "DELETE" });
+    publish({ tableName: "Widget", id: "w2", operation: "DELETE" });
+    expect(listener.mock.calls.map((c) => c[0].id)).toEqual(["w2"]);
+
+    hooks.unmount();
+    expect(connect.mock.calls.at(-1)?.[0].signal?.aborted).toBe(true);
+  });
+
+  it("returns false without live changes", () => {
+    hooks.context = {};
+    expect(hooks.render(() => useEntityChanges("Widget", vi.fn()))).toBe(false);
+  });
+});
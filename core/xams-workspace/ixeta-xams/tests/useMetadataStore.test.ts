@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MetadataResponse } from "../src/api/MetadataResponse";
+import { useAuthRequestType } from "../src/hooks/useAuthRequest";
+import { createMetadataStore } from "../src/stores/useMetadataStore";
+import { field } from "./metadata";
+
+const widget: MetadataResponse = {
+  tableName: "Widget",
+  displayName: "Widget",
+  primaryKey: "WidgetId",
+  fields: [field("WidgetId", "Guid")],
+};
+
+const part: MetadataResponse = {
+  tableName: "Part",
+  displayName: "Part",
+  primaryKey: "PartId",
+  fields: [field("PartId", "Guid")],
+};
+
+const authRequest = () => {
+  const metadata = vi.fn(async (tableName: string) =>
+    [widget, part].find((m) => m.tableName === tableName)
+  );
+  const tables = vi.fn(async () => ({
+    succeeded: true,
+    data: [
+      { tableName: "Widget", metadata: widget },
+      { tableName: "Part", metadata: part },
+    ],
+  }));
+  return {
+    apiUrl: "https://api",
+    metadata: metadata,
+    tables: tables,
+  } as unknown as useAuthRequestType & {
+    metadata: typeof metadata;
+    tables: typeof tables;
+  };
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("useMetadataStore", () => {
+  it("requests the metadata of a table once", async () => {
+    const store = createMetadataStore();
+    const request = authRequest();
+    const [first, second] = await Promise.all([
+      store.getState().getMetadata(request, "Widget"),
+      store.getState().getMetadata(request, "Widget"),
+    ]);
+    expect(first).toBe(widget);
+    expect(second).toBe(widget);
+    expect(await store.getState().getMetadata(request, "Widget")).toBe(widget);
+    expect(request.metadata).toHaveBeenCalledTimes(1);
+
+    await store.getState().getMetadata(request, "Widget", { reload: true });
+    expect(request.metadata).toHaveBeenCalledTimes(2);
+  });
+
+  it("loads metadata again once it's older than the ttl", async () => {
+    vi.useFakeTimers();
+    const store = createMetadataStore();
+    const request = authRequest();
+    store.getState().setTtl(1000);
+    await store.getState().getMetadata(request, "Widget");
+    vi.advanceTimersByTime(1000);
+    await store.getState().getMetadata(request, "Widget");
+    expect(request.metadata).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(1);
+    await store.getState().getMetadata(request, "Widget");
+    expect(request.metadata).toHaveBeenCalledTimes(2);
+  });
+
+  it("preloads every table in one request", async () => {
+    const store = createMetadataStore();
+    const request = authRequest();
+    await store.getState().preload(request);
+    expect(Object.keys(store.getState().entries)).toEqual([
+      "https://api|Widget",
+      "https://api|Part",
+    ]);
+    expect(await store.getState().getMetadata(request, "Part")).toBe(part);
+    expect(request.metadata).not.toHaveBeenCalled();
+  });
+
+  it("invalidates the given tables", async () => {
+    const store = createMetadataStore();
+    const request = authRequest();
+    await store.getState().preload(request);
+    store.getState().invalidateMetadata(["Widget"]);
+    expect(Object.keys(store.getState().entries)).toEqual(["https://api|Part"]);
+    store.getState().invalidateMetadata();
+    expect(store.getState().entries).toEqual({});
+  });
+
+  it("doesn't cache metadata requested before an invalidation", async () => {
+    const store = createMetadataStore();
+    const request = authRequest();
+    const pending = store.getState().getMetadata(request, "Widget");
+    store.getState().invalidateMetadata();
+    expect(await pending).toBe(widget);
+    expect(store.getState().entries).toEqual({});
+    await store.getState().getMetadata(request, "Widget");
+    expect(request.metadata).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MetadataResponse } from "../src/api/MetadataResponse";
+import { XamsClient } from "../src/api/XamsClient";
+import { API_DATA_UPDATE } from "../src/apiurls";
+import { MockXamsServer } from "../src/mock/MockXamsServer";
+import { createOfflineStore } from "../src/stores/useOfflineStore";
+import { field } from "./metadata";
+
+const metadata: MetadataResponse[] = [
+  {
+    tableName: "Widget",
+    displayName: "Widget",
+    primaryKey: "WidgetId",
+    fields: [
+      field("WidgetId", "Guid"),
+      field("Name", "String", { isNullable: true }),
+      field("Price", "Decimal", { isNullable: true }),
+    ],
+  },
+  {
+    tableName: "Part",
+    displayName: "Part",
+    primaryKey: "PartId",
+    fields: [
+      field("PartId", "Guid"),
+      field("Name", "String", { isNullable: true }),
+      field("WidgetId", "Lookup", {
+        lookupName: "Widget",
+        lookupTable: "Widget",
+        lookupTableNameField: "Name",
+        isNullable: true,
+      }),
+    ],
+  },
+];
+
+const setup = () => {
+  const server = new MockXamsServer({
+    metadata: metadata,
+    data: { Widget: [{ WidgetId: "w1", Name: "Bolt", Price: 1 }] },
+  });
+  vi.stubGlobal("fetch", server.fetch);
+  const offline = createOfflineStore("xams-offline:test");
+  const client = new XamsClient({
+    apiUrl: "https://api",
+    offlineQueue: offline,
+  });
+  offline.getState().setOnline(false);
+  return { server, offline, client };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("useOfflineStore", () => {
+  it("queues mutations made while offline", async () => {
+    const { server, offline, client } = setup();
+    const resp = await client.create<any>("Widget", { Name: "Nut" });
+    expect(resp.succeeded).toBe(true);
+    expect(resp.queued).toBe(true);
+    expect(resp.data.WidgetId).toBeDefined();
+    expect(offline.getState().isPending("Widget", resp.data.WidgetId)).toBe(
+      true
+    );
+    expect(server.getRecords("Widget")).toHaveLength(1);
+  });
+
+  it("replays in order and points records at the ids created on the server", async () => {
+    const { server, offline, client } = setup();
+    const widget = await client.create<any>("Widget", { Name: "Nut" });
+    const tempId = widget.data.WidgetId;
+    await client.update("Widget", { WidgetId: tempId, Price: 2 });
+    await client.create("Part", { Name: "Thread", WidgetId: tempId });
+
+    offline.getState().setOnline(true);
+    await offline.getState().replay(client);
+
+    expect(offline.getState().mutations).toEqual([]);
+    const nut = server.getRecords("Widget").find((w) => w.Name === "Nut");
+    expect(nut.Price).toBe(2);
+    expect(server.getRecords("Part")[0].WidgetId).toBe(nut.WidgetId);
+  });
+
+  it("keeps mutations of records changed on the server as conflicts", async () => {
+    const { server, offline, client } = setup();
+    const snapshot = { WidgetId: "w1", Name: "Bolt", Price: 1 };
+    await client.execute({
+      method: "PATCH",
+      url: API_DATA_UPDATE,
+      body: { tableName: "Widget", fields: { WidgetId: "w1", Price: 3 } },
+      snapshot: snapshot,
+    });
+    await client.execute({
+      method: "PATCH",
+      url: API_DATA_UPDATE,
+      body: { tableName: "Widget", fields: { WidgetId: "w1", Name: "Screw" } },
+      snapshot: snapshot,
+    });
+    // Another user changes the price while offline
+    await new XamsClient({ apiUrl: "https://api" }).update("Widget", {
+      WidgetId: "w1",
+      Price: 5,
+    });
+
+    offline.getState().setOnline(true);
+    await offline.getState().replay(client);
+
+    const mutations = offline.getState().mutations;
+    expect(mutations).toHaveLength(2);
+    expect(mutations[0].conflict).toMatchObject({
+      reason: "CHANGED",
+      fields: ["Price"],
+    });
+    // Later mutations of the record wait for the conflict to be resolved
+    expect(mutations[1].conflict).toBeUndefined();
+    expect(server.getRecords("Widget")[0].Name).toBe("Bolt");
+
+    await offline
+      .getState()
+      .resolveConflict(client, mutations[0].id, "OVERWRITE");
+    expect(offline.getState().mutations).toEqual([]);
+    expect(server.getRecords("Widget")[0]).toMatchObject({
+      Name: "Screw",
+      Price: 3,
+    });
+  });
+});
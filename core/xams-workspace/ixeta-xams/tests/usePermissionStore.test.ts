@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from "vitest";
+import { ApiResponse } from "../src/api/ApiResponse";
+import { useAuthRequestType } from "../src/hooks/useAuthRequest";
+import { createAuthStore } from "../src/stores/useAuthStore";
+import { createPermissionStore } from "../src/stores/usePermissionStore";
+import { createQueryCacheStore } from "../src/stores/useQueryCacheStore";
+
+const createStore = () =>
+  createPermissionStore(createAuthStore(), createQueryCacheStore());
+
+const authRequest = (...responses: Partial<ApiResponse<string[]>>[]) => {
+  const execute = vi.fn();
+  for (const response of responses) {
+    execute.mockResolvedValueOnce(response);
+  }
+  return {
+    apiUrl: "https://api",
+    execute: execute,
+  } as unknown as useAuthRequestType & { execute: typeof execute };
+};
+
+describe("usePermissionStore failures", () => {
+  it("records why a check failed instead of a result", async () => {
+    const store = createStore();
+    const request = authRequest({
+      succeeded: false,
+      friendlyMessage: "Server unavailable",
+    });
+    expect(
+      await store.getState().getPermissions(request, ["ACTION_Export"])
+    ).toEqual([]);
+    expect(store.getState().permissions).toEqual({});
+    expect(store.getState().permissionErrors).toEqual({
+      "https://api|ACTION_Export": "Server unavailable",
+    });
+  });
+
+  it("doesn't record aborted checks", async () => {
+    const store = createStore();
+    const request = authRequest({ succeeded: false, aborted: true });
+    await store.getState().getPermissions(request, ["ACTION_Export"]);
+    expect(store.getState().permissionErrors).toEqual({});
+  });
+
+  it("checks again after invalidatePermissions", async () => {
+    const store = createStore();
+    const request = authRequest(
+      { succeeded: false, friendlyMessage: "Server unavailable" },
+      { succeeded: true, data: ["ACTION_Export"] }
+    );
+    await store.getState().getPermissions(request, ["ACTION_Export"]);
+    store.getState().invalidatePermissions();
+    expect(store.getState().permissionErrors).toEqual({});
+    expect(
+      await store.getState().getPermissions(request, ["ACTION_Export"])
+    ).toEqual(["ACTION_Export"]);
+    expect(store.getState().permissions).toEqual({
+      "https://api|ACTION_Export": true,
+    });
+    expect(request.execute).toHaveBeenCalledTimes(2);
+  });
+});
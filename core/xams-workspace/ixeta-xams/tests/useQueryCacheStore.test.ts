@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ApiResponse } from "../src/api/ApiResponse";
+import { createQueryCacheStore } from "../src/stores/useQueryCacheStore";
+import { createXamsStores } from "../src/contexts/AuthContext";
+
+// The provider's components aren't needed to create its stores
+vi.mock("../src/components/OfflineSync", () => ({ default: () => null }));
+
+const ok = (data: any) => async () =>
+  ({ succeeded: true, data: data } as ApiResponse<any>);
+
+describe("useQueryCacheStore eviction", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("removes the least recently queried entries past maxEntries", async () => {
+    vi.useFakeTimers();
+    const store = createQueryCacheStore();
+    store.setState({ maxEntries: 2 });
+    const { query } = store.getState();
+    for (const key of ["a", "b", "a", "c"]) {
+      await query(key, ["Widget"], ok(key));
+      vi.advanceTimersByTime(10);
+    }
+    expect(Object.keys(store.getState().entries).sort()).toEqual(["a", "c"]);
+  });
+
+  it("removes entries that weren't queried within gcTimeMs", async () => {
+    vi.useFakeTimers();
+    const store = createQueryCacheStore();
+    store.setState({ gcTimeMs: 1000 });
+    const { query } = store.getState();
+    await query("a", ["Widget"], ok(1));
+    vi.advanceTimersByTime(1500);
+    await query("b", ["Widget"], ok(2));
+    expect(Object.keys(store.getState().entries)).toEqual(["b"]);
+  });
+
+  it("returns cached responses without fetching", async () => {
+    const store = createQueryCacheStore();
+    const fetcher = vi.fn(ok(1));
+    await store.getState().query("a", ["Widget"], fetcher);
+    const resp = await store.getState().query("a", ["Widget"], fetcher);
+    expect(resp.data).toBe(1);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("useQueryCacheStore users", () => {
+  it("clears cached reads and metadata when the user changes", async () => {
+    const stores = createXamsStores("https://api");
+    stores.auth.getState().setUserId("user-1");
+    await stores.queryCache.getState().query("a", ["Widget"], ok(1));
+    stores.metadata.setState({
+      entries: {
+        "https://api|Widget": { metadata: {} as any, loadedAt: Date.now() },
+      },
+    });
+    stores.auth.getState().setAccessToken("refreshed-token");
+    expect(Object.keys(stores.queryCache.getState().entries)).toEqual(["a"]);
+    stores.auth.getState().setUserId("user-2");
+    expect(stores.queryCache.getState().entries).toEqual({});
+    expect(stores.metadata.getState().entries).toEqual({});
+  });
+});
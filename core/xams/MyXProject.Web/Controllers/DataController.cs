@@ -106,6 +106,23 @@ public class DataController : BaseController
         });
     }
 
+    [HttpPost]
+    public async Task<IActionResult> BulkRead([FromBody] BulkReadInput input)
+    {
+        return await ExecuteAsync(async () =>
+        {
+            Guid userId = GetUserId();
+            return await _dataService.BulkRead(userId, input);
+        });
+    }
+
+    [HttpGet]
+    public async Task Changes()
+    {
+        Guid userId = GetUserId();
+        await _dataService.Changes(userId, HttpContext);
+    }
+
     [HttpPost]
     public async Task<IActionResult> Action([FromBody] ActionInput input)
     {
@@ -1,3 +1,5 @@
+using Xams.Core.Dtos;
+
 namespace MyXProject.Web.Utils;
 
 public class ApiResponse
@@ -6,4 +8,5 @@ public class ApiResponse
     public string? friendlyMessage { get; set; }
     public string? logMessage { get; set; }
     public dynamic? data { get; set; }
+    public List<FieldError>? fieldErrors { get; set; }
 }
\ No newline at end of file
@@ -32,7 +32,8 @@ public class BaseController : Controller
                     succeeded = response.Succeeded,
                     friendlyMessage = response.FriendlyMessage,
                     logMessage = response.LogMessage,
-                    data = response.Data
+                    data = response.Data,
+                    fieldErrors = response.FieldErrors
                 };
                 if (apiResponse.succeeded)
                 {
@@ -62,7 +63,8 @@ public class BaseController : Controller
                 succeeded = response.Succeeded,
                 friendlyMessage = response.FriendlyMessage,
                 logMessage = response.LogMessage,
-                data = response.Data
+                data = response.Data,
+                fieldErrors = response.FieldErrors
             };
             if (apiResponse.succeeded)
             {
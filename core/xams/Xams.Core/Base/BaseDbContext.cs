@@ -3,6 +3,7 @@ using Microsoft.EntityFrameworkCore;
 using Microsoft.EntityFrameworkCore.ChangeTracking;
 using Microsoft.EntityFrameworkCore.Infrastructure;
 using Microsoft.EntityFrameworkCore.Storage;
+using Xams.Core.Dtos.Data;
 using Xams.Core.Utils;
 
 namespace Xams.Core.Base
@@ -10,6 +11,8 @@ namespace Xams.Core.Base
     public class BaseDbContext : DbContext
     {
         internal bool SaveChangesCalledWithPendingChanges { get; private set; }
+        // Changes saved in a transaction are published once it's committed
+        private readonly List<ChangeOutput> _uncommittedChanges = new();
         
         public BaseDbContext()
         {
@@ -24,8 +27,11 @@ namespace Xams.Core.Base
             {
                 SaveChangesCalledWithPendingChanges = ChangeTracker.Entries().Any(e => e.State is EntityState.Added or EntityState.Modified or EntityState.Deleted);    
             }
-            
-            return await base.SaveChangesAsync(cancellationToken);
+
+            var changes = GetChanges();
+            var result = await base.SaveChangesAsync(cancellationToken);
+            OnChangesSaved(changes);
+            return result;
         }
         
         public override int SaveChanges()
@@ -34,7 +40,91 @@ namespace Xams.Core.Base
             {
                 SaveChangesCalledWithPendingChanges = ChangeTracker.Entries().Any(e => e.State is EntityState.Added or EntityState.Modified or EntityState.Deleted);    
             }
-            return base.SaveChanges();
+
+            var changes = GetChanges();
+            var result = base.SaveChanges();
+            OnChangesSaved(changes);
+            return result;
+        }
+
+        /// <summary>
+        /// Returns the records that will be created, updated or deleted by SaveChanges.
+        /// </summary>
+        /// <returns></returns>
+        private List<ChangeOutput> GetChanges()
+        {
+            List<ChangeOutput> changes = new();
+            foreach (var entry in ChangeTracker.Entries())
+            {
+                string? operation = entry.State switch
+                {
+                    EntityState.Added => "CREATE",
+                    EntityState.Modified => "UPDATE",
+                    EntityState.Deleted => "DELETE",
+                    _ => null
+                };
+                var primaryKey = entry.Metadata.FindPrimaryKey();
+                if (operation == null || primaryKey is not { Properties.Count: 1 })
+                {
+                    continue;
+                }
+
+                if (entry.Property(primaryKey.Properties[0].Name).CurrentValue is not Guid id)
+                {
+                    continue;
+                }
+
+                var change = new ChangeOutput()
+                {
+                    tableName = EntityUtil.GetEntityTableName(entry.Entity),
+                    id = id,
+                    operation = operation
+                };
+                AddOwners(entry, "OwningUserId", change.OwningUserIds);
+                AddOwners(entry, "OwningTeamId", change.OwningTeamIds);
+                changes.Add(change);
+            }
+
+            return changes;
+        }
+
+        private static void AddOwners(EntityEntry entry, string propertyName, List<Guid> owners)
+        {
+            if (entry.Metadata.FindProperty(propertyName) == null)
+            {
+                return;
+            }
+
+            var property = entry.Property(propertyName);
+            foreach (var value in new[] { property.OriginalValue, property.CurrentValue })
+            {
+                if (value is Guid owner && !owners.Contains(owner))
+                {
+                    owners.Add(owner);
+                }
+            }
+        }
+
+        private void OnChangesSaved(List<ChangeOutput> changes)
+        {
+            if (Database.CurrentTransaction != null)
+            {
+                _uncommittedChanges.AddRange(changes);
+                return;
+            }
+
+            ChangeNotifier.Instance.Publish(changes);
+        }
+
+        internal void PublishCommittedChanges()
+        {
+            ChangeNotifier.Instance.Publish(_uncommittedChanges);
+            _uncommittedChanges.Clear();
+        }
+
+        internal void DiscardUncommittedChanges()
+        {
+            _uncommittedChanges.Clear();
         }
         
 
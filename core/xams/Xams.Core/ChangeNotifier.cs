@@ -0,0 +1,54 @@
+using System.Collections.Concurrent;
+using System.Threading.Channels;
+using Xams.Core.Dtos.Data;
+
+namespace Xams.Core
+{
+    /// <summary>
+    /// Broadcasts the records created, updated and deleted by this server to the open change streams.
+    /// </summary>
+    public class ChangeNotifier
+    {
+        public static ChangeNotifier Instance { get; } = new();
+
+        // Slow clients drop their oldest changes instead of holding memory
+        private const int SubscriberCapacity = 1000;
+        private readonly ConcurrentDictionary<Guid, Channel<ChangeOutput>> _subscribers = new();
+
+        public ChannelReader<ChangeOutput> Subscribe(Guid subscriptionId)
+        {
+            var channel = Channel.CreateBounded<ChangeOutput>(new BoundedChannelOptions(SubscriberCapacity)
+            {
+                FullMode = BoundedChannelFullMode.DropOldest,
+                SingleReader = true
+            });
+            _subscribers[subscriptionId] = channel;
+            return channel.Reader;
+        }
+
+        public void Unsubscribe(Guid subscriptionId)
+        {
+            if (_subscribers.TryRemove(subscriptionId, out var channel))
+            {
+                channel.Writer.TryComplete();
+            }
+        }
+
+        public void Publish(IEnumerable<ChangeOutput> changes)
+        {
+            var changeList = changes.ToList();
+            if (changeList.Count == 0)
+            {
+                return;
+            }
+
+            foreach (var channel in _subscribers.Values)
+            {
+                foreach (var change in changeList)
+                {
+                    channel.Writer.TryWrite(change);
+                }
+            }
+        }
+    }
+}
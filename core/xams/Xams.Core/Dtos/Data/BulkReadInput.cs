@@ -0,0 +1,7 @@
+namespace Xams.Core.Dtos.Data;
+
+public class BulkReadInput
+{
+    public ReadInput[]? Reads { get; set; }
+    public PermissionsInput[]? Permissions { get; set; }
+}
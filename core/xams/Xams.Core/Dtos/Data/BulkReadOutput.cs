@@ -0,0 +1,7 @@
+namespace Xams.Core.Dtos.Data;
+
+public class BulkReadOutput
+{
+    public List<Response<ReadOutput>> Reads { get; set; } = new();
+    public List<Response<object?>> Permissions { get; set; } = new();
+}
@@ -0,0 +1,11 @@
+namespace Xams.Core.Dtos.Data;
+
+public class ChangeOutput
+{
+    public string tableName { get; set; }
+    public Guid id { get; set; }
+    public string operation { get; set; } // CREATE, UPDATE or DELETE
+    // The owners before and after the change, only sent to users that can read the record
+    internal List<Guid> OwningUserIds { get; } = new();
+    internal List<Guid> OwningTeamIds { get; } = new();
+}
@@ -15,6 +15,11 @@ namespace Xams.Core.Dtos.Data
         public Filter[]? filters { get; set; }
         public Join[]? joins { get; set; }
         public Exclude[]? except { get; set; }
+        public WhereIn[]? whereIn { get; set; } // Only reads records where fromField is in the query's field
+        public Aggregate[]? aggregates { get; set; }
+        public string[]? groupBy { get; set; }
+        public Filter[]? having { get; set; } // Filters on the group by fields and aggregate aliases
+        public bool? countOnly { get; set; } // Only return the total results, without any records
         public Dictionary<string, JsonElement>? parameters { get; set; }
     
     }
@@ -28,7 +33,7 @@ namespace Xams.Core.Dtos.Data
         public string fromField { get; set; } = null!;
         public string toTable { get; set; } = null!;
         public string toField { get; set; } = null!;
-        public Filter[]? filters { get; set; }
+        public Filter[]? filters { get; set; } // Filters the joined table before it's joined
     }
 
     public class Filter
@@ -38,6 +43,7 @@ namespace Xams.Core.Dtos.Data
         public string? field { get; set; }
         public string? @operator { get; set; }
         public string? value { get; set; }
+        public string[]? values { get; set; } // In and NotIn take a list, Between takes the start and end
 
     }
     
@@ -47,9 +53,22 @@ namespace Xams.Core.Dtos.Data
         public string? order { get; set; }
     }
 
+    public class Aggregate
+    {
+        public string function { get; set; } = null!; // count, sum, avg, min or max
+        public string? field { get; set; } // Count counts the records if the field isn't set
+        public string alias { get; set; } = null!;
+    }
+
     public class Exclude
     {
         public string fromField { get; set; }
         public ReadInput query { get; set; }
     }
+
+    public class WhereIn
+    {
+        public string fromField { get; set; }
+        public ReadInput query { get; set; }
+    }
 }
\ No newline at end of file
@@ -1,3 +1,5 @@
+using System.Text.Json.Serialization;
+
 namespace Xams.Core.Dtos.Data
 {
     public class TablesOutput
@@ -5,5 +7,8 @@ namespace Xams.Core.Dtos.Data
         public string tableName { get; set; }
         public string displayName { get; set; }
         public string tag { get; set; }
+        // Only set if the table list was requested with includeMetadata
+        [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+        public MetadataOutput? metadata { get; set; }
     }
 }
\ No newline at end of file
@@ -9,6 +9,14 @@ namespace Xams.Core.Dtos
         public string? LogMessage { get; set; }
         public T? Data { get; set; }
         public ResponseType ResponseType { get; set; } = ResponseType.Json;
+        // Validation errors tied to a specific field, shown next to the field by the client
+        public List<FieldError>? FieldErrors { get; set; }
+    }
+
+    public class FieldError
+    {
+        public string field { get; set; } = string.Empty;
+        public string message { get; set; } = string.Empty;
     }
 
     public class FileData
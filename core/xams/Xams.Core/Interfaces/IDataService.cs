@@ -37,6 +37,8 @@ namespace Xams.Core.Interfaces
             PipelineContext? parent = null);
 
         Task<Response<object?>> Bulk(Guid userId, BulkInput input);
+        Task<Response<object?>> BulkRead(Guid userId, BulkReadInput input);
+        Task Changes(Guid userId, HttpContext httpContext);
         Task<Response<object?>> Action(Guid userId, ActionInput input, HttpContext httpContext);
         Task<Response<object?>> Metadata(MetadataInput metadataInput, Guid userId);
         Task<Response<object?>> Permissions(PermissionsInput permissionsInput, Guid userId);
@@ -55,7 +55,15 @@ public class PipeUIServices : BasePipelineStage
                             {
                                 Succeeded = false,
                                 FriendlyMessage =
-                                    $"The value for {displayNameAttribute?.Name ?? property.Name} exceeds the character limit of {limit}."
+                                    $"The value for {displayNameAttribute?.Name ?? property.Name} exceeds the character limit of {limit}.",
+                                FieldErrors =
+                                [
+                                    new FieldError()
+                                    {
+                                        field = property.Name,
+                                        message = $"Exceeds the character limit of {limit}."
+                                    }
+                                ]
                             };
                         }
                     }
@@ -99,7 +107,15 @@ public class PipeUIServices : BasePipelineStage
                     return new Response<object?>()
                     {
                         Succeeded = false,
-                        FriendlyMessage = $"{displayNameAttribute?.Name ?? property.Name} is required."
+                        FriendlyMessage = $"{displayNameAttribute?.Name ?? property.Name} is required.",
+                        FieldErrors =
+                        [
+                            new FieldError()
+                            {
+                                field = property.Name,
+                                message = $"{displayNameAttribute?.Name ?? property.Name} is required."
+                            }
+                        ]
                     };
                 }
             }
@@ -47,7 +47,11 @@ public class PipeValidateNonNullableProperties : BasePipelineStage
                     return new Response<object>()
                     {
                         Succeeded = false,
-                        FriendlyMessage = $"{property.Name} on {context.TableName} cannot be null."
+                        FriendlyMessage = $"{property.Name} on {context.TableName} cannot be null.",
+                        FieldErrors =
+                        [
+                            new FieldError() { field = property.Name, message = $"{property.Name} cannot be null." }
+                        ]
                     };
                 }
             }
@@ -77,7 +81,11 @@ public class PipeValidateNonNullableProperties : BasePipelineStage
                     {
                         Succeeded = false,
                         FriendlyMessage = $"{propDisplayName} on {tableDisplayName} is required." ,
-                        LogMessage = $"Error validating non-nullable properties while attempting to {context.DataOperation}. {propDisplayName} is required on {tableDisplayName}."
+                        LogMessage = $"Error validating non-nullable properties while attempting to {context.DataOperation}. {propDisplayName} is required on {tableDisplayName}.",
+                        FieldErrors =
+                        [
+                            new FieldError() { field = property.Name, message = $"{propDisplayName} is required." }
+                        ]
                     };
                 }
             }
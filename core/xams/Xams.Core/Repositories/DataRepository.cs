@@ -160,6 +160,24 @@ namespace Xams.Core.Repositories
                 int totalCount = query.Count();
                 int totalPages = Convert.ToInt32(Math.Ceiling(totalCount / (float)readInput.maxResults));
 
+                if (readInput.countOnly == true)
+                {
+                    return new Response<ReadOutput>()
+                    {
+                        Succeeded = true,
+                        Data = new ReadOutput()
+                        {
+                            currentPage = readInput.page,
+                            totalResults = totalCount,
+                            maxResults = (int)readInput.maxResults,
+                            tableName = readInput.tableName,
+                            pages = totalPages,
+                            orderBy = readInput.orderBy,
+                            results = new List<object>()
+                        }
+                    };
+                }
+
                 query = query
                     .Skip((readInput.page - 1) * (int)readInput.maxResults)
                     .Take((int)readInput.maxResults);
@@ -503,6 +521,7 @@ namespace Xams.Core.Repositories
             if (_transaction != null && GetDbContext<BaseDbContext>().SaveChangesCalledWithPendingChanges)
             {
                 await _transaction.CommitAsync();
+                GetDbContext<BaseDbContext>().PublishCommittedChanges();
             }
         }
 
@@ -512,6 +531,7 @@ namespace Xams.Core.Repositories
             if (_transaction != null && GetDbContext<BaseDbContext>().SaveChangesCalledWithPendingChanges)
             {
                 await _transaction.RollbackAsync();
+                GetDbContext<BaseDbContext>().DiscardUncommittedChanges();
             }
         }
     }
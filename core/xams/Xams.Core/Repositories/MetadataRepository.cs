@@ -1,3 +1,4 @@
+using System.Text.Json;
 using Xams.Core.Base;
 using Xams.Core.Dtos;
 using Xams.Core.Dtos.Data;
@@ -100,6 +101,9 @@ namespace Xams.Core.Repositories
             }
             
             string? tag = metadataInput.parameters.ContainsKey("tag") ? metadataInput.parameters["tag"].GetString() : null;
+            // Return the metadata of every table so clients can load it in one request
+            bool includeMetadata = metadataInput.parameters.ContainsKey("includeMetadata") &&
+                                   metadataInput.parameters["includeMetadata"].ValueKind == JsonValueKind.True;
             using (var db = GetDataContext())
             {
                 List<TablesOutput> tables = new List<TablesOutput>();
@@ -132,6 +136,10 @@ namespace Xams.Core.Repositories
                 {
                     if (permissions.Any(x => x.StartsWith($"TABLE_{table.tableName}_READ_")))
                     {
+                        if (includeMetadata)
+                        {
+                            table.metadata = Cache.Instance.GetTableMetadata(table.tableName).MetadataOutput;
+                        }
                         filteredTables.Add(table);
                     }
                 }
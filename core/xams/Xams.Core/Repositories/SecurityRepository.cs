@@ -7,7 +7,7 @@ using Xams.Core.Utils;
 
 namespace Xams.Core.Repositories
 {
-    public class SecurityRepository 
+    public class SecurityRepository : IDisposable
     {
         private Type _dataContextType = typeof(BaseDbContext);
         private BaseDbContext? _dataContext;
@@ -23,6 +23,11 @@ namespace Xams.Core.Repositories
             return (BaseDbContext?)Activator.CreateInstance(_dataContextType);
         }
 
+        public void Dispose()
+        {
+            _dataContext?.Dispose();
+        }
+
         public async Task<Response<object?>> Get(PermissionsInput permissionsInput, Guid userId)
         {
             if (permissionsInput.method == "has_permissions")
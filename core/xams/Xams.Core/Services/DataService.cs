@@ -82,6 +82,25 @@ namespace Xams.Core.Services
         }
 
         public async Task<Response<ReadOutput>> Read(Guid userId, ReadInput readInput, PipelineContext? parent = null)
+        {
+            try
+            {
+                return await ExecuteRead(userId, readInput, parent);
+            }
+            finally
+            {
+                _dataRepository.Dispose();
+            }
+        }
+
+        /// <summary>
+        /// Runs the read pipeline and the bulk service logic of the read, the caller disposes the repository
+        /// </summary>
+        /// <param name="userId"></param>
+        /// <param name="readInput"></param>
+        /// <param name="parent"></param>
+        /// <returns></returns>
+        private async Task<Response<ReadOutput>> ExecuteRead(Guid userId, ReadInput readInput, PipelineContext? parent)
         {
             try
             {
@@ -133,10 +152,6 @@ namespace Xams.Core.Services
                     LogMessage = e.StackTrace
                 };
             }
-            finally
-            {
-                _dataRepository.Dispose();
-            }
         }
 
         public async Task<Response<object?>> Create(Guid userId, BatchInput createInput)
@@ -221,6 +236,171 @@ namespace Xams.Core.Services
             return await BulkExecute(userId, input, true);
         }
 
+        /// <summary>
+        /// Executes multiple reads and permission checks in one request, each has its own result
+        /// </summary>
+        /// <param name="userId"></param>
+        /// <param name="input"></param>
+        /// <returns></returns>
+        public async Task<Response<object?>> BulkRead(Guid userId, BulkReadInput input)
+        {
+            var output = new BulkReadOutput();
+            try
+            {
+                foreach (var readInput in input.Reads ?? Array.Empty<ReadInput>())
+                {
+                    // The bulk service logic of each read only sees that read, the same as a single read
+                    ServiceContexts.Clear();
+                    output.Reads.Add(await ExecuteRead(userId, readInput, null));
+                }
+
+                foreach (var permissionsInput in input.Permissions ?? Array.Empty<PermissionsInput>())
+                {
+                    output.Permissions.Add(await Permissions(permissionsInput, userId));
+                }
+            }
+            finally
+            {
+                _dataRepository.Dispose();
+            }
+
+            return ServiceResult.Success(output);
+        }
+
+        /// <summary>
+        /// Streams the records created, updated and deleted that the user can read as server-sent events,
+        /// until the client disconnects
+        /// </summary>
+        /// <param name="userId"></param>
+        /// <param name="httpContext"></param>
+        public async Task Changes(Guid userId, HttpContext httpContext)
+        {
+            var cancellationToken = httpContext.RequestAborted;
+            var subscriptionId = Guid.NewGuid();
+            var reader = ChangeNotifier.Instance.Subscribe(subscriptionId);
+            // Read permissions by table and the user's teams, checked again every minute so role changes are picked up
+            Dictionary<string, Xams.Core.Permissions.PermissionLevel?> readPermissions = new();
+            List<Guid>? userTeams = null;
+            DateTime permissionsCheckedAt = DateTime.UtcNow;
+            try
+            {
+                httpContext.Response.ContentType = "text/event-stream";
+                httpContext.Response.Headers.CacheControl = "no-cache";
+                await httpContext.Response.WriteAsync(": connected\n\n", cancellationToken);
+                await httpContext.Response.Body.FlushAsync(cancellationToken);
+
+                Task<bool>? waitTask = null;
+                while (!cancellationToken.IsCancellationRequested)
+                {
+                    // Send a comment every 30 seconds so proxies don't close an idle connection
+                    waitTask ??= reader.WaitToReadAsync(cancellationToken).AsTask();
+                    using (var keepAlive = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken))
+                    {
+                        if (await Task.WhenAny(waitTask, Task.Delay(30000, keepAlive.Token)) != waitTask)
+                        {
+                            await httpContext.Response.WriteAsync(": ping\n\n", cancellationToken);
+                            await httpContext.Response.Body.FlushAsync(cancellationToken);
+                            continue;
+                        }
+
+                        // Stop the keep-alive delay as a change arrived
+                        keepAlive.Cancel();
+                    }
+
+                    var hasChanges = await waitTask;
+                    waitTask = null;
+                    if (!hasChanges)
+                    {
+                        break;
+                    }
+
+                    if (DateTime.UtcNow - permissionsCheckedAt > TimeSpan.FromMinutes(1))
+                    {
+                        readPermissions.Clear();
+                        userTeams = null;
+                        permissionsCheckedAt = DateTime.UtcNow;
+                    }
+
+                    while (reader.TryRead(out var change))
+                    {
+                        if (!readPermissions.TryGetValue(change.tableName, out var permissionLevel))
+                        {
+                            // The connection can stay open for hours, so don't hold a db context between checks
+                            using var securityRepository = new SecurityRepository(typeof(TDbContext));
+                            var permissions = await securityRepository.UserPermissions(userId, new[]
+                            {
+                                $"TABLE_{change.tableName}_READ_SYSTEM",
+                                $"TABLE_{change.tableName}_READ_TEAM",
+                                $"TABLE_{change.tableName}_READ_USER"
+                            });
+                            permissionLevel = Xams.Core.Permissions.GetHighestPermission(permissions);
+                            readPermissions[change.tableName] = permissionLevel;
+                        }
+
+                        if (permissionLevel is Xams.Core.Permissions.PermissionLevel.Team
+                            or Xams.Core.Permissions.PermissionLevel.User)
+                        {
+                            if (userTeams == null)
+                            {
+                                using var securityRepository = new SecurityRepository(typeof(TDbContext));
+                                userTeams = (await securityRepository.UserTeams(userId)).Data ?? new List<Guid>();
+                            }
+                        }
+
+                        if (CanReadChange(change, permissionLevel, userId, userTeams))
+                        {
+                            await httpContext.Response.WriteAsync($"data: {JsonSerializer.Serialize(change)}\n\n",
+                                cancellationToken);
+                        }
+                    }
+
+                    await httpContext.Response.Body.FlushAsync(cancellationToken);
+                }
+            }
+            catch (OperationCanceledException)
+            {
+                // The client disconnected
+            }
+            finally
+            {
+                ChangeNotifier.Instance.Unsubscribe(subscriptionId);
+            }
+        }
+
+        // Like Read, System can read all records, Team the records of their teams and their own, User their own
+        private static bool CanReadChange(ChangeOutput change, Xams.Core.Permissions.PermissionLevel? permissionLevel,
+            Guid userId, List<Guid>? userTeams)
+        {
+            if (permissionLevel is Xams.Core.Permissions.PermissionLevel.System)
+            {
+                return true;
+            }
+
+            if (permissionLevel == null)
+            {
+                return false;
+            }
+
+            // Without System access users only read their own user and teams
+            if (change.tableName == "User")
+            {
+                return change.id == userId;
+            }
+
+            if (change.tableName == "Team")
+            {
+                return userTeams != null && userTeams.Contains(change.id);
+            }
+
+            if (change.OwningUserIds.Contains(userId))
+            {
+                return true;
+            }
+
+            return permissionLevel is Xams.Core.Permissions.PermissionLevel.Team && userTeams != null &&
+                   change.OwningTeamIds.Any(userTeams.Contains);
+        }
+
         public async Task<Response<object?>> Action(Guid userId, ActionInput input, HttpContext httpContext)
         {
             if (httpContext.Request.ContentType != null &&
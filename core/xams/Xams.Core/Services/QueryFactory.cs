@@ -1,3 +1,5 @@
+using System.Collections;
+using System.Globalization;
 using System.Reflection;
 using System.Text;
 using System.Text.Json;
@@ -68,7 +70,7 @@ public class QueryFactory
                     tableName = join.toTable,
                     fields = join.fields,
                 };
-                var joinQuery = Base(joinReadInput, join.alias);
+                var joinQuery = Base(joinReadInput, join.alias, join.filters);
                 if (join.type == "left")
                 {
                     query.LeftJoin($"{join.fromTable}.{join.fromField}", $"{join.alias}.{join.toField}", joinQuery);
@@ -84,6 +86,10 @@ public class QueryFactory
 
         AddExcept(query);
 
+        AddWhereIn(query);
+
+        AddAggregates(query, readInputCopy);
+
         AddOrder(query);
 
         if (readInputCopy.distinct == true)
@@ -94,7 +100,8 @@ public class QueryFactory
         return query;
     }
 
-    public Query Base(ReadInput readInput, string fieldPrefix = "root")
+    // Filters are only applied to the table's own fields, they're used to filter a table before it's joined
+    public Query Base(ReadInput readInput, string fieldPrefix = "root", Filter[]? filters = null)
     {
         if (!_queryOptions.Permissions.Any())
         {
@@ -184,6 +191,9 @@ public class QueryFactory
                 // Security - Filter by user permissions
                 AddSecurityFilter(subQuery, joinOn, hasOwningUserId, hasOwningTeamId);
 
+                // Before the union, afterwards only the selected fields are left
+                AddTableFilters(subQuery, filters);
+
                 queries.Add(subQuery);
             }
 
@@ -191,6 +201,11 @@ public class QueryFactory
             query = joinOns.Length > 1 ? queries[0].Union(queries[1]) : queries[0];
         }
 
+        if (readInput.tableName is "User" or "Team")
+        {
+            AddTableFilters(query, filters);
+        }
+
         return query;
     }
 
@@ -310,26 +325,22 @@ public class QueryFactory
         }
     }
 
-    private void AliasJoinFilters(Join[]? joins)
+    private void AddTableFilters(Query query, Filter[]? filters)
     {
-        if (joins == null)
+        if (filters == null || filters.Length == 0)
         {
             return;
         }
 
-        // Move the join filters to the primary query
-        foreach (var join in joins)
-        {
-            if (join.filters == null)
-            {
-                continue;
-            }
+        Type targetType = Cache.Instance.GetTableMetadata(query.TableName).Type;
+        FilterData filterData = GetFilters(targetType, query, filters);
 
-            foreach (var filter in join.filters)
-            {
-                filter.field = $"{join.alias}.{filter.field}";
-            }
+        if (filterData.Values.Count == 0)
+        {
+            return;
         }
+
+        query.Where(filterData.Filter.ToString(), filterData.Values.ToArray());
     }
 
     private void AddFilters(Query query, ReadInput readInput, string? logicalOperator = null)
@@ -339,12 +350,6 @@ public class QueryFactory
             return;
         }
 
-        // Add join filters
-        AliasJoinFilters(readInput.joins);
-        readInput.filters = readInput.filters.Concat(readInput.joins?
-            .Where(x => x.filters != null)
-            .SelectMany(x => x.filters ?? Array.Empty<Filter>()) ?? Array.Empty<Filter>()).ToArray();
-
         Type targetType = Cache.Instance.GetTableMetadata(query.TableName).Type;
         FilterData filterData =
             GetFilters(targetType, query, readInput.filters, readInput.joins, logicalOperator);
@@ -379,7 +384,9 @@ public class QueryFactory
                 continue;
             }
 
-            if (string.IsNullOrEmpty(filter.field) || string.IsNullOrEmpty(filter.value))
+            if (string.IsNullOrEmpty(filter.field) ||
+                (string.IsNullOrEmpty(filter.value) && filter.values == null &&
+                 filter.@operator != "IsNull" && filter.@operator != "IsNotNull"))
             {
                 continue;
             }
@@ -453,6 +460,14 @@ public class QueryFactory
                 throw new Exception($"{targetType.Name} does not contain a field named {filter.field}");
             }
 
+            if (filter.@operator != null && ExtendedOperators.Contains(filter.@operator))
+            {
+                conditions.Add(GetExtendedCondition(filter, $"{table}{field}", fieldType, isNullable, values,
+                    ref index));
+                index += 1;
+                continue;
+            }
+
             if (fieldType == typeof(Guid))
             {
                 filter.@operator = string.IsNullOrEmpty(filter.@operator) ? "==" : filter.@operator;
@@ -719,7 +734,11 @@ public class QueryFactory
 
         foreach (var orderBy in _readInput.orderBy)
         {
-            if (orderBy.field.Contains("."))
+            if (_readInput.aggregates?.Any(x => x.alias == orderBy.field) == true)
+            {
+                query.OrderBy(orderBy.field, orderBy.order ?? "asc");
+            }
+            else if (orderBy.field.Contains("."))
             {
                 query.OrderBy(orderBy.field.Replace(".", "_"), orderBy.order ?? "asc");
             }
@@ -730,6 +749,179 @@ public class QueryFactory
         }
     }
 
+    private void AddAggregates(Query query, ReadInput readInput)
+    {
+        if ((readInput.aggregates == null || readInput.aggregates.Length == 0) &&
+            (readInput.groupBy == null || readInput.groupBy.Length == 0))
+        {
+            return;
+        }
+
+        Type targetType = Cache.Instance.GetTableMetadata(query.TableName).Type;
+
+        // The type of each field in the grouped results, used to convert the having values
+        Dictionary<string, Type> resultTypes = new();
+        List<string> groupFields = new();
+        foreach (var field in readInput.groupBy ?? Array.Empty<string>())
+        {
+            string groupField = GetQueryField(query, field);
+            groupFields.Add(groupField);
+            resultTypes[groupField] = GetFieldType(targetType, field, readInput.joins);
+        }
+
+        List<string> selectors = new();
+        foreach (var aggregate in readInput.aggregates ?? Array.Empty<Aggregate>())
+        {
+            // The alias is used in the query so it must be a plain name
+            if (string.IsNullOrEmpty(aggregate.alias) || !Regex.IsMatch(aggregate.alias, "^[A-Za-z][A-Za-z0-9]*$"))
+            {
+                throw new Exception($"Invalid aggregate alias {aggregate.alias}.");
+            }
+
+            if (resultTypes.ContainsKey(aggregate.alias))
+            {
+                throw new Exception($"Aggregate alias {aggregate.alias} is used more than once.");
+            }
+
+            if (aggregate.function == "count" && string.IsNullOrEmpty(aggregate.field))
+            {
+                selectors.Add($"Count() as {aggregate.alias}");
+                resultTypes[aggregate.alias] = typeof(int);
+                continue;
+            }
+
+            if (string.IsNullOrEmpty(aggregate.field))
+            {
+                throw new Exception($"Aggregate {aggregate.alias} requires a field.");
+            }
+
+            string field = GetQueryField(query, aggregate.field);
+            Type fieldType = GetFieldType(targetType, aggregate.field, readInput.joins);
+            switch (aggregate.function)
+            {
+                case "count":
+                    selectors.Add($"Count({field} != null) as {aggregate.alias}");
+                    resultTypes[aggregate.alias] = typeof(int);
+                    break;
+                case "sum":
+                    selectors.Add($"Sum({field}) as {aggregate.alias}");
+                    resultTypes[aggregate.alias] = fieldType;
+                    break;
+                case "avg":
+                    selectors.Add($"Average({field}) as {aggregate.alias}");
+                    resultTypes[aggregate.alias] = fieldType == typeof(decimal) || fieldType == typeof(float)
+                        ? fieldType
+                        : typeof(double);
+                    break;
+                case "min":
+                    selectors.Add($"Min({field}) as {aggregate.alias}");
+                    resultTypes[aggregate.alias] = fieldType;
+                    break;
+                case "max":
+                    selectors.Add($"Max({field}) as {aggregate.alias}");
+                    resultTypes[aggregate.alias] = fieldType;
+                    break;
+                default:
+                    throw new Exception($"Invalid aggregate function {aggregate.function}.");
+            }
+        }
+
+        query.GroupBy(groupFields.ToArray(), selectors.ToArray());
+
+        if (readInput.having is { Length: > 0 })
+        {
+            List<object> values = new();
+            string where = GetHavingCondition(query, readInput.having, "&&", resultTypes, values);
+            if (!string.IsNullOrEmpty(where))
+            {
+                query.Having(where, values.ToArray());
+            }
+        }
+    }
+
+    private string GetHavingCondition(Query query, Filter[] filters, string logicalOperator,
+        Dictionary<string, Type> resultTypes, List<object> values)
+    {
+        List<string> conditions = new();
+        foreach (var filter in filters)
+        {
+            if (!string.IsNullOrEmpty(filter.logicalOperator))
+            {
+                string childOperator = filter.logicalOperator.ToUpper() is "OR" or "||" ? "||" : "&&";
+                string child = GetHavingCondition(query, filter.filters ?? Array.Empty<Filter>(), childOperator,
+                    resultTypes, values);
+                if (!string.IsNullOrEmpty(child))
+                {
+                    conditions.Add($"({child})");
+                }
+
+                continue;
+            }
+
+            if (string.IsNullOrEmpty(filter.field))
+            {
+                continue;
+            }
+
+            string field = resultTypes.ContainsKey(filter.field) ? filter.field : GetQueryField(query, filter.field);
+            if (!resultTypes.TryGetValue(field, out Type? fieldType))
+            {
+                throw new Exception($"Having can only filter on group by fields and aggregates, not {filter.field}.");
+            }
+
+            if (filter.@operator is "IsNull" or "IsNotNull")
+            {
+                conditions.Add($"{field} {(filter.@operator == "IsNull" ? "==" : "!=")} null");
+                continue;
+            }
+
+            string op = string.IsNullOrEmpty(filter.@operator) ? "==" : filter.@operator;
+            if (string.IsNullOrEmpty(filter.value) || !IsValidOperator(op))
+            {
+                continue;
+            }
+
+            conditions.Add($"{field} {op} @{values.Count}");
+            values.Add(ConvertFilterValue(fieldType, filter.value));
+        }
+
+        return string.Join($" {logicalOperator} ", conditions);
+    }
+
+    // The name of a field in the query, ie: Name is root_Name and alias.Name is alias_Name
+    private static string GetQueryField(Query query, string field)
+    {
+        return field.Contains('.') ? field.Replace(".", "_") : $"{query.RootAlias}_{field}";
+    }
+
+    // The type of a field on the root table or a joined table, without nullable
+    private static Type GetFieldType(Type targetType, string field, Join[]? joins)
+    {
+        Type tableType = targetType;
+        string fieldName = field;
+        if (field.Contains('.'))
+        {
+            string[] fieldParts = field.Split('.');
+            var join = joins?.FirstOrDefault(x =>
+                x.alias == fieldParts[0] || (string.IsNullOrEmpty(x.alias) && x.toTable == fieldParts[0]));
+            if (join == null)
+            {
+                throw new Exception($"Join {fieldParts[0]} does not exist");
+            }
+
+            tableType = Cache.Instance.GetTableMetadata(join.toTable).Type;
+            fieldName = fieldParts[1];
+        }
+
+        PropertyInfo? property = tableType.GetProperty(fieldName);
+        if (property == null || Attribute.GetCustomAttribute(property, typeof(UIHideAttribute)) != null)
+        {
+            throw new Exception($"{tableType.Name} does not contain a field named {fieldName}");
+        }
+
+        return Nullable.GetUnderlyingType(property.PropertyType) ?? property.PropertyType;
+    }
+
     private void AddExcept(Query query)
     {
         if (_readInput.except == null || _readInput.except.Length == 0)
@@ -743,6 +935,119 @@ public class QueryFactory
         }
     }
 
+    private void AddWhereIn(Query query)
+    {
+        if (_readInput.whereIn == null || _readInput.whereIn.Length == 0)
+        {
+            return;
+        }
+
+        foreach (var whereIn in _readInput.whereIn)
+        {
+            query.In(whereIn.fromField, new QueryFactory(_dbContext, _queryOptions, whereIn.query).Create());
+        }
+    }
+
+    // Operators that aren't a simple comparison, values are converted to the type of the field
+    private static readonly string[] ExtendedOperators =
+        ["In", "NotIn", "Between", "StartsWith", "EndsWith", "IsNull", "IsNotNull", "EqualsIgnoreCase"];
+
+    private static string GetExtendedCondition(Filter filter, string field, Type fieldType, bool isNullable,
+        List<object> values, ref int index)
+    {
+        string fieldValue = isNullable ? $"{field}.Value" : field;
+        switch (filter.@operator)
+        {
+            case "IsNull":
+                values.Add("");
+                return $"{field} == null";
+            case "IsNotNull":
+                values.Add("");
+                return $"{field} != null";
+            case "In":
+            case "NotIn":
+            {
+                var list = (IList)Activator.CreateInstance(typeof(List<>).MakeGenericType(fieldType))!;
+                foreach (var value in filter.values ?? Array.Empty<string>())
+                {
+                    list.Add(ConvertFilterValue(fieldType, value));
+                }
+
+                values.Add(list);
+                if (filter.@operator == "In")
+                {
+                    return isNullable
+                        ? $"({field} != null && @{index}.Contains({fieldValue}))"
+                        : $"@{index}.Contains({field})";
+                }
+
+                return isNullable
+                    ? $"({field} == null || !@{index}.Contains({fieldValue}))"
+                    : $"!@{index}.Contains({field})";
+            }
+            case "Between":
+            {
+                if (filter.values is not { Length: 2 })
+                {
+                    throw new Exception($"Between requires a start and end value for {filter.field}.");
+                }
+
+                values.Add(ConvertFilterValue(fieldType, filter.values[0]));
+                values.Add(ConvertFilterValue(fieldType, filter.values[1]));
+                index += 1;
+                return $"({field} >= @{index - 1} && {field} <= @{index})";
+            }
+            default:
+            {
+                if (fieldType != typeof(string))
+                {
+                    throw new Exception($"{filter.@operator} can only be used on text fields, {filter.field} is not.");
+                }
+
+                if (filter.value == null)
+                {
+                    throw new Exception($"{filter.@operator} requires a value for {filter.field}.");
+                }
+
+                if (filter.@operator == "EqualsIgnoreCase")
+                {
+                    values.Add(filter.value.ToLower());
+                    return $"({field} != null && {field}.ToLower() == @{index})";
+                }
+
+                values.Add(filter.value);
+                return $"({field} != null && {field}.{filter.@operator}(@{index}))";
+            }
+        }
+    }
+
+    private static object ConvertFilterValue(Type fieldType, string value)
+    {
+        try
+        {
+            if (fieldType == typeof(string))
+            {
+                return value;
+            }
+
+            if (fieldType == typeof(Guid))
+            {
+                return Guid.Parse(value);
+            }
+
+            if (fieldType == typeof(DateTime))
+            {
+                return DateTime.Parse(value, CultureInfo.InvariantCulture, DateTimeStyles.AdjustToUniversal);
+            }
+
+            return Convert.ChangeType(value, fieldType, CultureInfo.InvariantCulture);
+        }
+        catch (Exception e) when (e is FormatException or InvalidCastException or OverflowException)
+        {
+            throw new Exception($"Failed to convert {value} to {fieldType.Name}.");
+        }
+    }
+
     private bool IsValidOperator(string? op)
     {
         // Ensure that the operator is valid
@@ -776,8 +1081,10 @@ public class QueryFactory
         }
 
 
+        bool isAggregate = readInput.aggregates is { Length: > 0 } || readInput.groupBy is { Length: > 0 };
+
         // Make sure at least 1 field has been selected either on the root table or a joined table
-        if ((readInput.fields == null || readInput.fields.Length == 0)
+        if (!isAggregate && (readInput.fields == null || readInput.fields.Length == 0)
             && (readInput.joins == null || readInput.joins.Length == 0 ||
                 readInput.joins.FirstOrDefault(x => x.fields.Length > 0) == null))
         {
@@ -791,6 +1098,11 @@ public class QueryFactory
             throw new Exception("Wildcard * can only be used to select all fields");
         }
 
+        if (isAggregate && readInput.denormalize == true)
+        {
+            throw new Exception("Denormalize can't be used with aggregates");
+        }
+
         // Ensure primary key is included if denormalize is true
         if (readInput.denormalize == true && (readInput.fields == null
                                               || !(readInput.fields.Contains($"{readInput.tableName}Id")
@@ -817,8 +1129,9 @@ public class QueryFactory
 
         if (readInput.joins != null)
         {
-            // Check for duplicate aliases
-            var duplicateAliases = readInput.joins.GroupBy(x => x.alias).Where(g => g.Count() > 1).Select(y => y.Key)
+            // Check for duplicate aliases, joins without an alias use the table name
+            var duplicateAliases = readInput.joins.GroupBy(x => x.alias ?? x.toTable).Where(g => g.Count() > 1)
+                .Select(y => y.Key)
                 .ToList();
             if (duplicateAliases.Count > 0)
             {
@@ -841,9 +1154,16 @@ public class QueryFactory
                     }
                 }
 
+                // The table name refers to the root table, so joins to the same table need an alias
+                if ((join.alias ?? join.toTable) == readInput.tableName)
+                {
+                    throw new Exception($"Join to {join.toTable} requires an alias other than {readInput.tableName}");
+                }
+
 
                 // Verify from table exists in query
-                bool isAliasJoin = readInput.joins.FirstOrDefault(x => x != join && x.alias == join.fromTable) != null;
+                bool isAliasJoin = readInput.joins.FirstOrDefault(x =>
+                    x != join && (x.alias ?? x.toTable) == join.fromTable) != null;
                 bool isRootJoin = readInput.tableName == join.fromTable;
                 if (!(isAliasJoin || isRootJoin))
                 {
@@ -859,7 +1179,8 @@ public class QueryFactory
                 if (isAliasJoin)
                 {
                     // Get aliased table name
-                    string? aliasTableName = readInput.joins.FirstOrDefault(x => x.alias == join.fromTable)?.toTable;
+                    string? aliasTableName = readInput.joins
+                        .FirstOrDefault(x => (x.alias ?? x.toTable) == join.fromTable)?.toTable;
                     if (string.IsNullOrEmpty(aliasTableName))
                     {
                         throw new Exception($"Alias {join.fromTable} does not exist in query");
@@ -878,6 +1199,9 @@ public class QueryFactory
                     throw new Exception($"Field {join.toField} does not exist on {join.toTable}");
                 }
 
+                // Join filters are on the fields of the joined table
+                ValidateFilters(new ReadInput() { tableName = join.toTable, fields = join.fields }, join.filters);
+
                 if (join.fields.Length > 0 && join.fields[0] == "*")
                 {
                     continue;
@@ -915,33 +1239,15 @@ public class QueryFactory
         {
             foreach (var exclude in readInput.except)
             {
-                if (string.IsNullOrEmpty(exclude.fromField))
-                {
-                    throw new Exception("fromField is required on except");
-                }
-
-                if (exclude.query.fields == null || exclude.query.fields.Length == 0)
-                {
-                    throw new Exception($"except requires a field to be selected on {exclude.query.tableName}");
-                }
-
-                if (exclude.query.fields.Length > 1)
-                {
-                    throw new Exception($"except can only select one field on {exclude.query.tableName}");
-                }
-
-                if (exclude.query.fields.Length == 1 && exclude.query.fields[0].Trim() == "*")
-                {
-                    throw new Exception($"except cannot select all fields on {exclude.query.tableName}");
-                }
-
-                if (exclude.query.fields.Length == 1 && string.IsNullOrEmpty(exclude.query.fields[0].Trim()))
-                {
-                    throw new Exception($"except requires a field to be selected on {exclude.query.tableName}");
-                }
+                ValidateSubquery("except", exclude.fromField, exclude.query);
+            }
+        }
 
-                // Recursively validate the except query
-                Validate(exclude.query);
+        if (readInput.whereIn != null)
+        {
+            foreach (var whereIn in readInput.whereIn)
+            {
+                ValidateSubquery("whereIn", whereIn.fromField, whereIn.query);
             }
         }
 
@@ -957,7 +1263,7 @@ public class QueryFactory
                 if (orderBy.field.Contains("."))
                 {
                     string alias = orderBy.field.Split(".")[0];
-                    var join = readInput.joins?.FirstOrDefault(x => x.alias == alias);
+                    var join = readInput.joins?.FirstOrDefault(x => (x.alias ?? x.toTable) == alias);
                     if (join == null)
                     {
                         throw new Exception($"Alias {alias} does not exist in query");
@@ -979,6 +1285,38 @@ public class QueryFactory
         return true;
     }
 
+    // Except and whereIn compare a field with the one field selected by their query
+    private static void ValidateSubquery(string name, string fromField, ReadInput query)
+    {
+        if (string.IsNullOrEmpty(fromField))
+        {
+            throw new Exception($"fromField is required on {name}");
+        }
+
+        if (query.fields == null || query.fields.Length == 0)
+        {
+            throw new Exception($"{name} requires a field to be selected on {query.tableName}");
+        }
+
+        if (query.fields.Length > 1)
+        {
+            throw new Exception($"{name} can only select one field on {query.tableName}");
+        }
+
+        if (query.fields.Length == 1 && query.fields[0].Trim() == "*")
+        {
+            throw new Exception($"{name} cannot select all fields on {query.tableName}");
+        }
+
+        if (query.fields.Length == 1 && string.IsNullOrEmpty(query.fields[0].Trim()))
+        {
+            throw new Exception($"{name} requires a field to be selected on {query.tableName}");
+        }
+
+        // Recursively validate the subquery
+        Validate(query);
+    }
+
     public static void ValidateFilters(ReadInput readInput, Filter[]? filters)
     {
         if (filters == null)
@@ -1014,7 +1352,7 @@ public class QueryFactory
             {
                 string alias = filter.field.Split('.')[0];
                 string field = filter.field.Split('.')[1];
-                var join = readInput.joins?.FirstOrDefault(x => x.alias == alias);
+                var join = readInput.joins?.FirstOrDefault(x => (x.alias ?? x.toTable) == alias);
                 if (join == null)
                 {
                     throw new Exception($"Join {alias} does not exist");
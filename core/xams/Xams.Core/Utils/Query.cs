@@ -23,6 +23,10 @@ public class Query
     private List<string> _aliases { get; set; } = new();
     private bool _isDistinct { get; set; }
     private Dictionary<string, string> _fieldMap { get; set; } = new();
+    private string[]? _groupFields { get; set; }
+    private string[] _aggregateSelectors { get; set; } = Array.Empty<string>();
+    private List<(string Where, object[] Args)> _having { get; set; } = new();
+    private List<string> _groupOrders { get; set; } = new();
 
     public Query(DbContext dbContext, string[] fields, string rootAlias = "root")
     {
@@ -330,9 +334,30 @@ public class Query
         return this;
     }
 
+    // Groups the results by the fields, each aggregate selector is like "Sum(root_Amount) as total"
+    // Order by and top called after this apply to the groups, use Having to filter them
+    public Query GroupBy(string[] fields, string[] aggregateSelectors)
+    {
+        _groupFields = fields;
+        _aggregateSelectors = aggregateSelectors;
+        return this;
+    }
+
+    public Query Having(string where, params object[] args)
+    {
+        _having.Add((where, args));
+        return this;
+    }
+
     public Query OrderBy(string field, string order)
     {
         string orderBy = $"{field} {order}";
+        if (_groupFields != null)
+        {
+            _groupOrders.Add(orderBy);
+            return this;
+        }
+
         if (_orders.Count > 0)
         {
             _orderedQueryable = _orderedQueryable.ThenBy(orderBy);
@@ -363,7 +388,19 @@ public class Query
         return this;
     }
 
+    // Only keeps records where the field isn't in the first field of the query
     public Query Except(string fromField, Query excludeQuery)
+    {
+        return WhereSubquery(fromField, excludeQuery, true);
+    }
+
+    // Only keeps records where the field is in the first field of the query
+    public Query In(string fromField, Query inQuery)
+    {
+        return WhereSubquery(fromField, inQuery, false);
+    }
+
+    private Query WhereSubquery(string fromField, Query subquery, bool exclude)
     {
         if (fromField.Contains("."))
         {
@@ -374,8 +411,8 @@ public class Query
             fromField = $"{RootAlias}_{fromField}";
         }
         
-        var exclude = excludeQuery.ToQueryable();
-        exclude = exclude.Select(excludeQuery._selectedFields[0]);
+        var subqueryValues = subquery.ToQueryable();
+        subqueryValues = subqueryValues.Select(subquery._selectedFields[0]);
 
         Type tableType = Cache.Instance.GetTableMetadata(_fieldMap[fromField]).Type;
         Type? fieldType = tableType.GetProperty(fromField.Split("_")[1])?.PropertyType;
@@ -387,24 +424,27 @@ public class Query
 
         // Define the parameters.
         var entity = Expression.Parameter(_query.ElementType, "entity");
-        var excludeId = Expression.Parameter(fieldType, "excludeId");
-        // Build the inner lambda: excludeId => excludeId == entity.{PrimaryKey}
+        var subqueryId = Expression.Parameter(fieldType, "subqueryId");
+        // Build the inner lambda: subqueryId => subqueryId == entity.{PrimaryKey}
         var primaryKeyProperty = Expression.Property(entity, fromField);
-        var innerLambdaBody = Expression.Equal(excludeId, primaryKeyProperty);
-        var innerLambda = Expression.Lambda(innerLambdaBody, excludeId);
+        var innerLambdaBody = Expression.Equal(subqueryId, primaryKeyProperty);
+        var innerLambda = Expression.Lambda(innerLambdaBody, subqueryId);
 
-        // Build the call to Any: excludeQuery.Any(excludeId => excludeId == entity.PermissionId)
+        // Build the call to Any: subquery.Any(subqueryId => subqueryId == entity.PermissionId)
         MethodInfo anyMethod = typeof(Enumerable).GetMethods()
             .Where(m => m.Name == "Any" && m.GetParameters().Count() == 2)
             .Single(m => m.GetParameters()[1].ParameterType.GetGenericTypeDefinition() == typeof(Func<,>))
             .MakeGenericMethod(fieldType);
-        var anyCall = Expression.Call(anyMethod, exclude.Expression, innerLambda);
+        Expression anyCall = Expression.Call(anyMethod, subqueryValues.Expression, innerLambda);
 
-        // Negate the result of the Any call
-        var notAny = Expression.Not(anyCall);
+        // Negate the result of the Any call to exclude the records
+        if (exclude)
+        {
+            anyCall = Expression.Not(anyCall);
+        }
 
-        // Build the final lambda for Where: entity => !excludeQuery.Any(excludeId => excludeId == entity.PermissionId)
-        var finalLambda = Expression.Lambda(notAny, entity);
+        // Build the final lambda for Where: entity => !subquery.Any(subqueryId => subqueryId == entity.PermissionId)
+        var finalLambda = Expression.Lambda(anyCall, entity);
 
         // Apply the lambda to the original query dynamically
         IEnumerable<MethodInfo?> whereMethods = typeof(Queryable).GetMethods(BindingFlags.Static | BindingFlags.Public)
@@ -469,6 +509,11 @@ public class Query
 
     private IQueryable Final()
     {
+        if (_groupFields != null)
+        {
+            return Grouped();
+        }
+
         IQueryable result = _query
             .Select($"new({string.Join(",", _selectedFields)})");
         IOrderedQueryable orderedQueryable = null!;
@@ -498,6 +543,33 @@ public class Query
         return result;
     }
 
+    private IQueryable Grouped()
+    {
+        // Without group fields every record is in one group
+        string key = _groupFields!.Length == 0 ? "1" : $"new({string.Join(",", _groupFields)})";
+        IEnumerable<string> selectors = _groupFields.Select(x => $"Key.{x} as {x}").Concat(_aggregateSelectors);
+        IQueryable result = _query.GroupBy(key).Select($"new({string.Join(",", selectors)})");
+
+        foreach (var (where, args) in _having)
+        {
+            result = result.Where(where, args);
+        }
+
+        IOrderedQueryable orderedQueryable = null!;
+        for (int i = 0; i < _groupOrders.Count; i++)
+        {
+            orderedQueryable = i == 0 ? result.OrderBy(_groupOrders[i]) : orderedQueryable.ThenBy(_groupOrders[i]);
+            result = orderedQueryable;
+        }
+
+        if (_top != -1)
+        {
+            result = result.Take(_top);
+        }
+
+        return result;
+    }
+
     private string GetFromKey(string from)
     {
         if (!from.Contains("."))
@@ -30,6 +30,14 @@ public class QueryUtil
             }
         }
 
+        if (readInput.whereIn != null)
+        {
+            foreach (var whereIn in readInput.whereIn)
+            {
+                results.AddRange(GetTables(whereIn.query));
+            }
+        }
+
         return results.ToArray();
     }
     
@@ -60,5 +60,16 @@ namespace Xams.Core.Utils
                 Data = data
             };
         }
+
+        // A validation error of a field, ie: ServiceResult.FieldError(nameof(Widget.Price), "Price must be positive.")
+        public static Response<object?> FieldError(string field, string message)
+        {
+            return new Response<object?>()
+            {
+                Succeeded = false,
+                FriendlyMessage = message,
+                FieldErrors = [new FieldError() { field = field, message = message }]
+            };
+        }
     }
 }
\ No newline at end of file